@@ -7,7 +7,7 @@ import chalk from 'chalk';
 import inquirer from 'inquirer';
 import path from 'path';
 import fs from 'fs/promises';
-import { FHEVMRepl, type ReplConfig } from '../repl/repl.js';
+import { FHEVMRepl, type ExecutionMode, type ReplConfig } from '../repl/repl.js';
 
 export default class Call extends Command {
   static override description = 'Call deployed FHEVM contract interactively';
@@ -17,6 +17,8 @@ export default class Call extends Command {
     '<%= config.bin %> <%= command.id %> --network localhost',
     '<%= config.bin %> <%= command.id %> --address 0x5FbDB2315678afecb367f032d93F642f64180aa3',
     '<%= config.bin %> <%= command.id %> --network sepolia',
+    '<%= config.bin %> <%= command.id %> --mode task',
+    '<%= config.bin %> <%= command.id %> --script scenario.zc',
   ];
 
   static override flags = {
@@ -35,6 +37,17 @@ export default class Call extends Command {
       description: 'Signer index or private key',
       default: '0',
     }),
+    mode: Flags.string({
+      char: 'm',
+      description: 'Execute calls in-process or through generated Hardhat tasks',
+      options: ['direct', 'task'],
+      default: 'direct',
+    }),
+    script: Flags.string({
+      description: 'Run a file of REPL commands and expect assertions, then exit',
+      required: false,
+      exclusive: ['function'],
+    }),
     function: Flags.string({
       char: 'f',
       description: 'Function to call (non-interactive)',
@@ -53,6 +66,7 @@ export default class Call extends Command {
 
   async run(): Promise<void> {
     const { flags } = await this.parse(Call);
+    let scriptPassed = true;
 
     try {
       // Find project directory
@@ -70,7 +84,7 @@ export default class Call extends Command {
 
       // Setup providers and signers
       const provider = new ethers.JsonRpcProvider(networkConfig.rpcUrl);
-      const signers = await this.getSigners(provider, flags.signer);
+      const { signers, currentSignerIndex } = await this.getSigners(provider, flags.signer);
 
       // Load contract
       const contract = new ethers.Contract(
@@ -88,14 +102,21 @@ export default class Call extends Command {
         contractName: contractInfo.name,
         contractAddress: contractInfo.address,
         signers,
-        currentSignerIndex: 0,
+        currentSignerIndex,
         network: flags.network,
         chainId: Number(network.chainId),
         projectDir,
+        provider,
+        abi: contractInfo.abi,
+        mode: flags.mode as ExecutionMode,
       };
 
       // Check if non-interactive mode
-      if (flags.function) {
+      if (flags.script) {
+        const repl = new FHEVMRepl(config);
+        scriptPassed = await repl.runScript(path.resolve(flags.script));
+        provider.destroy();
+      } else if (flags.function) {
         await this.executeNonInteractive(config, flags);
       } else {
         // Launch interactive REPL
@@ -105,6 +126,10 @@ export default class Call extends Command {
     } catch (error) {
       this.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
     }
+
+    if (!scriptPassed) {
+      this.exit(1);
+    }
   }
 
   /**
@@ -355,12 +380,12 @@ export default class Call extends Command {
   }
 
   /**
-   * Get signers
+   * Get signers and the index selected by --signer (an index or a private key)
    */
   private async getSigners(
     provider: ethers.JsonRpcProvider,
     signerFlag: string,
-  ): Promise<any[]> {
+  ): Promise<{ signers: any[]; currentSignerIndex: number }> {
     // For localhost, use Hardhat's default accounts
     const accounts = await provider.listAccounts();
 
@@ -373,7 +398,22 @@ export default class Call extends Command {
       accounts.map(async (_, index) => await provider.getSigner(index))
     );
 
-    return signers;
+    if (/^\d+$/.test(signerFlag)) {
+      const index = Number(signerFlag);
+      if (index >= signers.length) {
+        throw new Error(`Signer index out of range (0-${signers.length - 1})`);
+      }
+      return { signers, currentSignerIndex: index };
+    }
+
+    let wallet: ethers.Wallet;
+    try {
+      wallet = new ethers.Wallet(signerFlag, provider);
+    } catch {
+      throw new Error('Invalid --signer: expected an index or a private key');
+    }
+
+    return { signers: [...signers, wallet], currentSignerIndex: signers.length };
   }
 
   /**
@@ -0,0 +1,188 @@
+// Diff command - Report ABI changes between two versions of a contract
+// Compares two artifacts, or an artifact at a git ref against the working tree
+
+import { Command, Flags, Args } from '@oclif/core';
+import { readFileSync, writeFileSync } from 'fs';
+import { basename, relative, resolve } from 'path';
+import chalk from 'chalk';
+import { execa } from 'execa';
+import {
+  diffContractAbis,
+  formatAbiDiffMarkdown,
+  hasBreakingChanges,
+  type AbiChange,
+} from '@zcraft/codegen';
+import type { Abi } from 'abitype';
+
+export default class Diff extends Command {
+  static override description = 'Report added, removed and breaking ABI changes between two contract versions';
+
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> ./old/FHECounter.json ./artifacts/contracts/FHECounter.sol/FHECounter.json',
+    '<%= config.bin %> <%= command.id %> ./abi/FHECounter.json --ref main',
+    '<%= config.bin %> <%= command.id %> ./abi/FHECounter.json --ref v1.0.0 --format markdown --output abi-changes.md',
+    '<%= config.bin %> <%= command.id %> ./old.json ./new.json --format json --fail-on-breaking',
+  ];
+
+  static override args = {
+    before: Args.string({
+      description: 'ABI or Hardhat artifact of the previous version, or the file to compare with --ref',
+      required: true,
+    }),
+    after: Args.string({
+      description: 'ABI or Hardhat artifact of the new version (defaults to the working tree copy with --ref)',
+      required: false,
+    }),
+  };
+
+  static override flags = {
+    ref: Flags.string({
+      char: 'r',
+      description: 'Git ref to read the previous version from, e.g. main or HEAD~1',
+      required: false,
+    }),
+    format: Flags.string({
+      char: 'f',
+      description: 'Report format',
+      options: ['text', 'markdown', 'json'],
+      default: 'text',
+    }),
+    output: Flags.string({
+      char: 'o',
+      description: 'Write the report to a file instead of printing it, as markdown unless --format json',
+      required: false,
+    }),
+    name: Flags.string({
+      char: 'n',
+      description: 'Contract name (defaults to filename without extension)',
+      required: false,
+    }),
+    'fail-on-breaking': Flags.boolean({
+      description: 'Exit with code 1 when there are breaking changes',
+      default: false,
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { args, flags } = await this.parse(Diff);
+
+    if (!flags.ref && !args.after) {
+      this.error(chalk.red('Pass two ABI files, or one with --ref to compare it against a git ref'));
+    }
+
+    const afterPath = resolve(args.after ?? args.before);
+    const contractName = flags.name ?? basename(afterPath).replace(/\.(abi\.)?json$/i, '');
+
+    let before: Abi;
+    let after: Abi;
+    try {
+      before = flags.ref
+        ? parseAbi(await this.readAtRef(flags.ref, resolve(args.before)), `${flags.ref}:${args.before}`)
+        : parseAbi(readFileSync(resolve(args.before), 'utf-8'), args.before);
+      after = parseAbi(readFileSync(afterPath, 'utf-8'), args.after ?? args.before);
+    } catch (error) {
+      this.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
+    }
+
+    const changes = diffContractAbis(before, after);
+    const report =
+      flags.format === 'json'
+        ? `${JSON.stringify({ contract: contractName, breaking: hasBreakingChanges(changes), changes }, null, 2)}\n`
+        : flags.format === 'markdown'
+          ? formatAbiDiffMarkdown(contractName, changes)
+          : null;
+
+    if (flags.output) {
+      const outputPath = resolve(flags.output);
+      writeFileSync(outputPath, report ?? formatAbiDiffMarkdown(contractName, changes), 'utf-8');
+      this.log(chalk.green(`✓ Report written to ${relative(process.cwd(), outputPath)}`));
+    } else if (report !== null) {
+      process.stdout.write(report);
+    } else {
+      this.printChanges(contractName, changes);
+    }
+
+    if (flags['fail-on-breaking'] && hasBreakingChanges(changes)) {
+      this.exit(1);
+    }
+  }
+
+  /**
+   * Read a file as it was at a git ref
+   */
+  private async readAtRef(ref: string, filePath: string): Promise<string> {
+    const { stdout: root } = await execa('git', ['rev-parse', '--show-toplevel'], { cwd: process.cwd() });
+    const repoPath = relative(root, filePath).split('\\').join('/');
+
+    try {
+      const { stdout } = await execa('git', ['show', `${ref}:${repoPath}`], { cwd: root });
+      return stdout;
+    } catch {
+      throw new Error(
+        `${repoPath} is not in git at ${ref}. Artifacts are often gitignored, so commit the ABI or compare two files`,
+      );
+    }
+  }
+
+  /**
+   * Print changes to the terminal, breaking ones first
+   */
+  private printChanges(contractName: string, changes: AbiChange[]): void {
+    this.log('');
+    this.log(chalk.green('⚡') + ' ' + chalk.bold.white('ZCraft') + ' : ' + chalk.gray(`ABI Diff - ${contractName}`));
+    this.log('');
+
+    if (changes.length === 0) {
+      this.log(chalk.green('✓ No ABI changes'));
+      this.log('');
+      return;
+    }
+
+    const breaking = changes.filter((change) => change.breaking);
+    const ordered = [...breaking, ...changes.filter((change) => !change.breaking)];
+
+    for (const change of ordered) {
+      const marker =
+        change.change === 'added' ? chalk.green('+') : change.change === 'removed' ? chalk.red('-') : chalk.yellow('~');
+      const signature = change.previousSignature
+        ? `${change.previousSignature} → ${change.signature}`
+        : change.signature;
+      const tags = [
+        change.breaking ? chalk.red('[breaking]') : '',
+        change.fhe ? chalk.magenta('[fhe]') : '',
+      ].filter(Boolean);
+
+      this.log(`  ${marker} ${chalk.gray(change.kind.padEnd(8))} ${chalk.cyan(signature)} ${tags.join(' ')}`);
+      for (const detail of change.details) {
+        this.log(`      ${detail.breaking ? chalk.red(detail.message) : chalk.gray(detail.message)}`);
+      }
+    }
+
+    this.log('');
+    if (breaking.length > 0) {
+      const fheCount = breaking.filter((change) => change.fhe).length;
+      this.log(
+        chalk.red(`✗ ${breaking.length} breaking change${breaking.length !== 1 ? 's' : ''}`) +
+          (fheCount > 0 ? chalk.magenta(`, ${fheCount} to encrypted types`) : ''),
+      );
+    } else {
+      this.log(chalk.green('✓ No breaking changes'));
+    }
+    this.log('');
+  }
+}
+
+/**
+ * Read an ABI from a raw ABI array or a Hardhat artifact
+ */
+function parseAbi(content: string, source: string): Abi {
+  const parsed = JSON.parse(content);
+
+  if (Array.isArray(parsed)) {
+    return parsed;
+  }
+  if (parsed.abi && Array.isArray(parsed.abi)) {
+    return parsed.abi;
+  }
+  throw new Error(`Invalid ABI format in ${source}. Expected array or object with "abi" field.`);
+}
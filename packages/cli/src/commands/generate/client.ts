@@ -0,0 +1,122 @@
+// Generate client command - Generate a typed TypeScript client from a contract ABI
+// The client encrypts external inputs and decrypts view results for frontends
+
+import { Command, Flags, Args } from '@oclif/core';
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { basename, join, resolve } from 'path';
+import chalk from 'chalk';
+import ora from 'ora';
+import { parseContractAbi, generateClient } from '@zcraft/codegen';
+import type { Abi } from 'abitype';
+import { resolveTemplateDir } from '../../utils/codegen-templates.js';
+
+export default class Client extends Command {
+  static override description = 'Generate a typed TypeScript client class from contract ABI';
+
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> ./artifacts/contracts/FHECounter.sol/FHECounter.json',
+    '<%= config.bin %> <%= command.id %> ./FHECounter.abi.json --output ./src/clients',
+    '<%= config.bin %> <%= command.id %> ./FHECounter.abi.json --sdk @zama-fhe/relayer-sdk/node',
+  ];
+
+  static override args = {
+    abiPath: Args.string({
+      description: 'Path to contract ABI file or Hardhat artifact',
+      required: true,
+    }),
+  };
+
+  static override flags = {
+    name: Flags.string({
+      char: 'n',
+      description: 'Contract name (defaults to filename without extension)',
+      required: false,
+    }),
+    output: Flags.string({
+      char: 'o',
+      description: 'Output directory (defaults to ./client)',
+      required: false,
+    }),
+    sdk: Flags.string({
+      description: 'Module the FhevmInstance type is imported from',
+      default: '@zama-fhe/relayer-sdk/web',
+    }),
+    templates: Flags.string({
+      char: 't',
+      description: 'Template set to render the client with (defaults to .zcraft/templates when present)',
+      required: false,
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { args, flags } = await this.parse(Client);
+
+    this.log('');
+    this.log(chalk.green('⚡') + ' ' + chalk.bold.white('ZCraft') + ' : ' + chalk.gray('Generate Client'));
+    this.log('');
+
+    const abiPath = resolve(args.abiPath);
+    const contractName = flags.name ?? basename(abiPath).replace(/\.(abi\.)?json$/i, '');
+
+    this.log(chalk.gray(`Contract: ${contractName}`));
+    this.log('');
+
+    // Read ABI file
+    const spinner = ora('Reading ABI file...').start();
+    let abi: Abi;
+    try {
+      const parsed = JSON.parse(readFileSync(abiPath, 'utf-8'));
+
+      // Handle both raw ABI arrays and Hardhat artifact format
+      if (Array.isArray(parsed)) {
+        abi = parsed;
+      } else if (parsed.abi && Array.isArray(parsed.abi)) {
+        abi = parsed.abi;
+      } else {
+        throw new Error('Invalid ABI format. Expected array or object with "abi" field.');
+      }
+
+      spinner.succeed(chalk.green('ABI file loaded'));
+    } catch (error) {
+      spinner.fail(chalk.red('Failed to read ABI file'));
+      this.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
+    }
+
+    // Generate client code
+    spinner.start('Generating client...');
+    let code: string;
+    try {
+      code = generateClient(contractName, parseContractAbi(abi), {
+        sdkImport: flags.sdk,
+        templateDir: resolveTemplateDir(process.cwd(), flags.templates),
+      });
+      spinner.succeed(chalk.green('Client generated'));
+    } catch (error) {
+      spinner.fail(chalk.red('Failed to generate client'));
+      this.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
+    }
+
+    // Write output file
+    const outputDir = flags.output ? resolve(flags.output) : join(process.cwd(), 'client');
+    const outputPath = join(outputDir, `${contractName}Client.ts`);
+
+    spinner.start(`Writing to ${outputPath}...`);
+    try {
+      if (!existsSync(outputDir)) {
+        mkdirSync(outputDir, { recursive: true });
+      }
+      writeFileSync(outputPath, code, 'utf-8');
+      spinner.succeed(chalk.green(`Client written to ${outputPath}`));
+    } catch (error) {
+      spinner.fail(chalk.red('Failed to write output file'));
+      this.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
+    }
+
+    this.log('');
+    this.log(chalk.green('✨ Done!'));
+    this.log('');
+    this.log(chalk.gray('Usage:'));
+    this.log(chalk.cyan(`  const client = new ${contractName}Client(address, signer, fhevmInstance);`));
+    this.log('');
+  }
+}
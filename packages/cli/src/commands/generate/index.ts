@@ -4,7 +4,7 @@ import { Command } from '@oclif/core';
 import chalk from 'chalk';
 
 export default class Generate extends Command {
-  static override description = 'Generate code from contracts (tasks, docs, etc.)';
+  static override description = 'Generate code from contracts (tasks, clients, tests, docs, etc.)';
 
   static override examples = [
     '<%= config.bin %> <%= command.id %> task ./FHECounter.json',
@@ -17,12 +17,18 @@ export default class Generate extends Command {
     this.log('');
     this.log(chalk.bold('Available generators:'));
     this.log('');
-    this.log(chalk.cyan('  task') + '  ' + chalk.gray('Generate Hardhat tasks from contract ABI'));
-    this.log(chalk.cyan('  docs') + '  ' + chalk.gray('Generate GitBook documentation from contracts'));
+    this.log(chalk.cyan('  task') + '    ' + chalk.gray('Generate Hardhat tasks from contract ABI'));
+    this.log(chalk.cyan('  client') + '  ' + chalk.gray('Generate a typed TypeScript client from contract ABI'));
+    this.log(chalk.cyan('  test') + '    ' + chalk.gray('Generate a mocha/chai test scaffold from contract ABI'));
+    this.log(chalk.cyan('  docs') + '    ' + chalk.gray('Generate GitBook documentation from contracts'));
+    this.log(chalk.cyan('  templates') + ' ' + chalk.gray('List or eject the templates used by task, client and test'));
     this.log('');
     this.log(chalk.gray('Usage:'));
     this.log(chalk.white('  zcraft generate task <abi-file>'));
+    this.log(chalk.white('  zcraft generate client <abi-file>'));
+    this.log(chalk.white('  zcraft generate test <abi-file>'));
     this.log(chalk.white('  zcraft generate docs [options]'));
+    this.log(chalk.white('  zcraft generate templates --eject'));
     this.log('');
     this.log(chalk.gray('Run "zcraft generate <command> --help" for more information'));
     this.log('');
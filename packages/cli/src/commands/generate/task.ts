@@ -2,81 +2,153 @@
 // Automatically generates task definitions for FHEVM contracts
 
 import { Command, Flags, Args } from '@oclif/core';
-import { readFileSync, writeFileSync, existsSync, mkdirSync, readdirSync, statSync } from 'fs';
-import { basename, join, resolve, extname } from 'path';
+import {
+  readFileSync,
+  writeFileSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  statSync,
+  unlinkSync,
+} from 'fs';
+import { basename, dirname, join, relative, resolve, extname } from 'path';
 import chalk from 'chalk';
 import ora from 'ora';
-import { parseContractAbi, generateTasks } from '@zcraft/codegen';
+import {
+  parseContractAbi,
+  parseContractErrors,
+  parseContractEvents,
+  generateTasks,
+} from '@zcraft/codegen';
 import type { Abi } from 'abitype';
 import inquirer from 'inquirer';
+import {
+  applyEdit,
+  findHardhatConfig,
+  findTasksBarrel,
+  formatDiff,
+  planAddImport,
+  planRemoveImport,
+  toImportSpecifier,
+  type ImportEdit,
+} from '../../utils/config-editor.js';
+import { hashGenerator, hashTemplateDir, resolveTemplateDir } from '../../utils/codegen-templates.js';
+import { TaskManifest } from '../../utils/task-manifest.js';
 
 /**
- * Helper function to add import statement to hardhat.config file
+ * Delay before regenerating, so one compile triggers one run
+ */
+const WATCH_DEBOUNCE_MS = 300;
+
+/**
+ * How often --watch checks the artifacts for changes
+ * Polling works on every Node version and survives artifacts/ being deleted by hardhat clean
+ */
+const WATCH_POLL_MS = 1000;
+
+/**
+ * Planned changes to the files that import task files
+ */
+interface ImportResult {
+  success: boolean;
+  message: string;
+  edits: ImportEdit[];
+}
+
+/**
+ * Helper function to plan adding a task file import to hardhat.config,
+ * or to the tasks barrel file when the config loads tasks through one
  */
 function addImportToHardhatConfig(
   projectDir: string,
-  contractName: string,
-  taskFileRelativePath: string
-): { success: boolean; message: string } {
-  // Try both .ts and .js extensions
-  const configFiles = ['hardhat.config.ts', 'hardhat.config.js'];
-  let configPath: string | null = null;
-
-  for (const configFile of configFiles) {
-    const path = join(projectDir, configFile);
-    if (existsSync(path)) {
-      configPath = path;
-      break;
-    }
-  }
+  taskFile: string,
+  barrelFile?: string
+): ImportResult {
+  const configPath = findHardhatConfig(projectDir);
 
   if (!configPath) {
     return {
       success: false,
       message: 'hardhat.config.ts or hardhat.config.js not found',
+      edits: [],
     };
   }
 
   try {
-    const content = readFileSync(configPath, 'utf-8');
-    const importStatement = `import "${taskFileRelativePath}";`;
-
-    // Check if import already exists
-    if (content.includes(importStatement)) {
+    const barrel = barrelFile ? resolve(barrelFile) : findTasksBarrel(configPath, dirname(taskFile));
+    const edits = barrel
+      ? [
+          planAddImport(barrel, toImportSpecifier(barrel, taskFile)),
+          planAddImport(configPath, toImportSpecifier(configPath, barrel)),
+        ]
+      : [planAddImport(configPath, toImportSpecifier(configPath, taskFile))];
+
+    const changed = edits.filter((edit) => edit.changed);
+    if (changed.length === 0) {
       return {
         success: true,
         message: 'Import already exists in config',
+        edits: [],
       };
     }
 
-    // Find the last import statement and add after it
-    const lines = content.split('\n');
-    let lastImportIndex = -1;
+    return {
+      success: true,
+      message: `Added import to ${changed.map((edit) => basename(edit.filePath)).join(' and ')}`,
+      edits: changed,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to update config: ${error instanceof Error ? error.message : String(error)}`,
+      edits: [],
+    };
+  }
+}
 
-    for (let i = 0; i < lines.length; i++) {
-      if (lines[i].trim().startsWith('import ')) {
-        lastImportIndex = i;
-      }
-    }
+/**
+ * Helper function to plan removing a task file import from hardhat.config and the tasks barrel file
+ */
+function removeImportFromHardhatConfig(
+  projectDir: string,
+  taskFile: string,
+  barrelFile?: string
+): ImportResult {
+  const configPath = findHardhatConfig(projectDir);
 
-    if (lastImportIndex >= 0) {
-      // Add import after the last import statement
-      lines.splice(lastImportIndex + 1, 0, importStatement);
-    } else {
-      // No imports found, add at the beginning
-      lines.unshift(importStatement);
-    }
+  if (!configPath) {
+    return {
+      success: false,
+      message: 'hardhat.config.ts or hardhat.config.js not found',
+      edits: [],
+    };
+  }
 
-    writeFileSync(configPath, lines.join('\n'), 'utf-8');
+  try {
+    const barrel = barrelFile ? resolve(barrelFile) : findTasksBarrel(configPath, dirname(taskFile));
+    const files = barrel && existsSync(barrel) ? [barrel, configPath] : [configPath];
+    const changed = files
+      .map((file) => planRemoveImport(file, toImportSpecifier(file, taskFile)))
+      .filter((edit) => edit.changed);
+
+    if (changed.length === 0) {
+      return {
+        success: true,
+        message: 'No import to remove from config',
+        edits: [],
+      };
+    }
 
     return {
       success: true,
-      message: `Added import to ${basename(configPath)}`,
+      message: `Removed import from ${changed.map((edit) => basename(edit.filePath)).join(' and ')}`,
+      edits: changed,
     };
   } catch (error) {
     return {
       success: false,
       message: `Failed to update config: ${error instanceof Error ? error.message : String(error)}`,
+      edits: [],
     };
   }
 }
@@ -90,6 +162,7 @@ export default class Task extends Command {
     '<%= config.bin %> <%= command.id %> ./FHECounter.abi.json',
     '<%= config.bin %> <%= command.id %> ./artifacts/contracts/MyContract.sol/MyContract.json',
     '<%= config.bin %> <%= command.id %> --output ./custom-tasks',
+    '<%= config.bin %> <%= command.id %> --watch',
   ];
 
   static override args = {
@@ -120,6 +193,26 @@ export default class Task extends Command {
       description: 'Generate tasks for all detected contracts',
       default: false,
     }),
+    force: Flags.boolean({
+      char: 'f',
+      description: 'Regenerate tasks even if the contract ABI has not changed',
+      default: false,
+    }),
+    barrel: Flags.string({
+      char: 'b',
+      description: 'Tasks index file to import task files from (detected from hardhat.config if not given)',
+      required: false,
+    }),
+    watch: Flags.boolean({
+      char: 'w',
+      description: 'Regenerate tasks whenever artifacts change after compiling',
+      default: false,
+    }),
+    templates: Flags.string({
+      char: 't',
+      description: 'Template set to render tasks with (defaults to .zcraft/templates when present)',
+      required: false,
+    }),
   };
 
   async run(): Promise<void> {
@@ -131,6 +224,10 @@ export default class Task extends Command {
       this.log(chalk.green('⚡') + ' ' + chalk.bold.white('ZCraft') + ' : ' + chalk.gray('Generate Tasks'));
       this.log('');
 
+      if (flags.watch && args.abiPath) {
+        this.error('--watch regenerates detected contracts and cannot be used with an ABI path');
+      }
+
       // Auto-detect or manual path
       if (!args.abiPath) {
         await this.runAutoDetect(flags);
@@ -193,7 +290,11 @@ export default class Task extends Command {
       spinner.start('Generating Hardhat tasks...');
       let code: string;
       try {
-        code = generateTasks(contractName, functions);
+        code = generateTasks(contractName, functions, {
+          events: parseContractEvents(abi),
+          errors: parseContractErrors(abi),
+          templateDir: resolveTemplateDir(process.cwd(), flags.templates),
+        });
         spinner.succeed(chalk.green('Hardhat tasks generated'));
       } catch (error) {
         spinner.fail(chalk.red('Failed to generate tasks'));
@@ -238,14 +339,11 @@ export default class Task extends Command {
 
       // Add import to hardhat.config.ts
       spinner.start('Updating hardhat.config...');
-      const taskFileRelativePath = `./tasks/${contractName}.tasks`;
-      const configResult = addImportToHardhatConfig(
-        projectDir,
-        contractName,
-        taskFileRelativePath
-      );
+      const configResult = addImportToHardhatConfig(projectDir, outputPath, flags.barrel);
 
       if (configResult.success) {
+        spinner.stop();
+        this.writeEdits(configResult.edits);
         spinner.succeed(chalk.green(configResult.message));
       } else {
         spinner.warn(chalk.yellow(configResult.message));
@@ -324,7 +422,7 @@ export default class Task extends Command {
     // Determine which contracts to process
     let contractsToProcess = contracts;
 
-    if (!flags.all && !flags.contract && contracts.length > 1) {
+    if (!flags.all && !flags.contract && !flags.watch && contracts.length > 1) {
       // Interactive selection
       const { selectedContracts } = await inquirer.prompt<{ selectedContracts: string[] }>([
         {
@@ -343,15 +441,168 @@ export default class Task extends Command {
       return;
     }
 
-    // Generate tasks for each contract
-    for (const contract of contractsToProcess) {
-      this.log(chalk.cyan(`\nGenerating tasks for ${contract.name}...`));
-      await this.generateTasksForContract(contract.abiPath, contract.name, flags.output);
-    }
+    await this.generateIncremental(projectDir, contractsToProcess, contracts, flags);
 
     this.log('');
     this.log(chalk.green('✨ All tasks generated!'));
     this.log('');
+
+    if (flags.watch) {
+      await this.watchArtifacts(projectDir, flags);
+    }
+  }
+
+  /**
+   * Generate tasks for contracts whose ABI changed and remove those of deleted contracts
+   */
+  private async generateIncremental(
+    projectDir: string,
+    contractsToProcess: Array<{ name: string; abiPath: string }>,
+    detectedContracts: Array<{ name: string; abiPath: string }>,
+    flags: any
+  ): Promise<void> {
+    const manifest = new TaskManifest(projectDir, hashGenerator());
+
+    // Template edits count as changes, so they are hashed along with each ABI
+    const templateDir = resolveTemplateDir(projectDir, flags.templates);
+    if (templateDir) {
+      this.log(chalk.gray(`Using templates from ${relative(projectDir, templateDir) || '.'}`));
+    }
+    const templates = templateDir ? { dir: templateDir, hash: hashTemplateDir(templateDir) } : undefined;
+
+    for (const contract of contractsToProcess) {
+      this.log(chalk.cyan(`\nGenerating tasks for ${contract.name}...`));
+      await this.generateTasksForContract(
+        contract.abiPath,
+        contract.name,
+        flags.output,
+        manifest,
+        flags.force,
+        flags.barrel,
+        templates
+      );
+    }
+
+    // A single --contract run only sees that contract, so it can't tell what was removed
+    if (!flags.contract) {
+      this.removeStaleTasks(projectDir, manifest, detectedContracts, flags.barrel);
+    }
+
+    manifest.save();
+  }
+
+  /**
+   * Delete task files of contracts no longer in the artifacts, with their config imports
+   */
+  private removeStaleTasks(
+    projectDir: string,
+    manifest: TaskManifest,
+    detectedContracts: Array<{ name: string; abiPath: string }>,
+    barrelFile?: string
+  ): void {
+    const detectedNames = new Set(detectedContracts.map((contract) => contract.name));
+
+    for (const stale of manifest.contracts()) {
+      if (detectedNames.has(stale.name)) {
+        continue;
+      }
+
+      this.log(chalk.cyan(`\nRemoving tasks for ${stale.name}...`));
+
+      try {
+        if (existsSync(stale.taskFile)) {
+          unlinkSync(stale.taskFile);
+        }
+        this.log(chalk.green(`  ✓ Deleted ${stale.taskFile}`));
+      } catch (error) {
+        this.log(chalk.red(`  ✗ Failed to delete file: ${error instanceof Error ? error.message : String(error)}`));
+        continue;
+      }
+
+      const configResult = removeImportFromHardhatConfig(projectDir, stale.taskFile, barrelFile);
+
+      if (configResult.success) {
+        this.writeEdits(configResult.edits);
+        this.log(chalk.green(`  ✓ ${configResult.message}`));
+      } else {
+        this.log(chalk.yellow(`  ⚠ ${configResult.message}`));
+      }
+
+      manifest.remove(stale.name);
+    }
+  }
+
+  /**
+   * Regenerate tasks whenever compiled artifacts change, until interrupted
+   */
+  private async watchArtifacts(projectDir: string, flags: any): Promise<void> {
+    const artifactsDir = join(projectDir, 'artifacts');
+    const contractsDir = join(artifactsDir, 'contracts');
+    let timer: NodeJS.Timeout | undefined;
+    let running = Promise.resolve();
+
+    const regenerate = async () => {
+      // After hardhat clean there is nothing to generate from, and every task would look stale
+      if (!existsSync(contractsDir)) {
+        return;
+      }
+      try {
+        const contracts = await this.detectContracts(projectDir, flags.contract);
+        this.log(chalk.gray(`\n[${new Date().toLocaleTimeString()}] Artifacts changed`));
+        await this.generateIncremental(projectDir, contracts, contracts, flags);
+      } catch (error) {
+        this.log(chalk.red(`  ✗ ${error instanceof Error ? error.message : String(error)}`));
+      }
+    };
+
+    let fingerprint = fingerprintArtifacts(contractsDir);
+    const poller = setInterval(() => {
+      const next = fingerprintArtifacts(contractsDir);
+      if (next === fingerprint) {
+        return;
+      }
+      fingerprint = next;
+
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        running = running.then(regenerate);
+      }, WATCH_DEBOUNCE_MS);
+    }, WATCH_POLL_MS);
+
+    this.log(chalk.gray(`Watching ${relative(process.cwd(), artifactsDir) || '.'} for changes (Ctrl+C to stop)`));
+
+    await new Promise<void>((resolve) => {
+      process.once('SIGINT', () => {
+        clearTimeout(timer);
+        clearInterval(poller);
+        resolve();
+      });
+    });
+
+    await running;
+  }
+
+  /**
+   * Show the diff of each planned config edit, then write it
+   */
+  private writeEdits(edits: ImportEdit[]): void {
+    for (const edit of edits) {
+      this.log(chalk.gray(`  ${relative(process.cwd(), edit.filePath)}`));
+
+      for (const line of formatDiff(edit)) {
+        if (line === '@@') {
+          this.log(chalk.cyan('    ...'));
+        } else if (line.startsWith('+')) {
+          this.log(chalk.green(`    ${line}`));
+        } else if (line.startsWith('-')) {
+          this.log(chalk.red(`    ${line}`));
+        } else {
+          this.log(chalk.gray(`    ${line}`));
+        }
+      }
+
+      applyEdit(edit);
+    }
   }
 
   /**
@@ -435,7 +686,11 @@ export default class Task extends Command {
   private async generateTasksForContract(
     abiPath: string,
     contractName: string,
-    outputDirFlag?: string
+    outputDirFlag: string | undefined,
+    manifest: TaskManifest,
+    force: boolean,
+    barrelFile?: string,
+    templates?: { dir: string; hash: string }
   ): Promise<void> {
     // Read ABI file
     let abi: Abi;
@@ -456,6 +711,18 @@ export default class Task extends Command {
       return;
     }
 
+    // Determine output directory
+    const projectDir = process.cwd();
+    const outputDir = outputDirFlag ? resolve(outputDirFlag) : join(projectDir, 'tasks');
+    const outputPath = join(outputDir, `${contractName}.tasks.ts`);
+
+    // Skip contracts whose ABI hasn't changed since the last run with this codegen version
+    const abiHash = manifest.hashAbi(abi, templates?.hash);
+    if (!force && manifest.isUpToDate(contractName, abiHash, outputPath)) {
+      this.log(chalk.gray('  ABI unchanged, skipping'));
+      return;
+    }
+
     // Parse ABI
     let functions;
     try {
@@ -469,25 +736,25 @@ export default class Task extends Command {
     // Generate tasks code
     let code: string;
     try {
-      code = generateTasks(contractName, functions);
+      code = generateTasks(contractName, functions, {
+        events: parseContractEvents(abi),
+        errors: parseContractErrors(abi),
+        templateDir: templates?.dir,
+      });
     } catch (error) {
       this.log(chalk.red(`  ✗ Failed to generate tasks: ${error instanceof Error ? error.message : String(error)}`));
       return;
     }
 
-    // Determine output directory
-    const projectDir = process.cwd();
-    const outputDir = outputDirFlag ? resolve(outputDirFlag) : join(projectDir, 'tasks');
-
     // Create output directory if it doesn't exist
     if (!existsSync(outputDir)) {
       mkdirSync(outputDir, { recursive: true });
     }
 
     // Write output file
-    const outputPath = join(outputDir, `${contractName}.tasks.ts`);
     try {
       writeFileSync(outputPath, code, 'utf-8');
+      manifest.set(contractName, abiHash, outputPath);
       this.log(chalk.green(`  ✓ Tasks written to ${outputPath}`));
     } catch (error) {
       this.log(chalk.red(`  ✗ Failed to write file: ${error instanceof Error ? error.message : String(error)}`));
@@ -495,17 +762,44 @@ export default class Task extends Command {
     }
 
     // Add import to hardhat.config.ts
-    const taskFileRelativePath = `./tasks/${contractName}.tasks`;
-    const configResult = addImportToHardhatConfig(
-      projectDir,
-      contractName,
-      taskFileRelativePath
-    );
+    const configResult = addImportToHardhatConfig(projectDir, outputPath, barrelFile);
 
     if (configResult.success) {
+      this.writeEdits(configResult.edits);
       this.log(chalk.green(`  ✓ ${configResult.message}`));
     } else {
       this.log(chalk.yellow(`  ⚠ ${configResult.message}`));
     }
   }
 }
+
+/**
+ * Path, size and modification time of every contract artifact, to notice compiles
+ * Only contract artifacts matter, not build-info or debug files. Empty when the directory is missing
+ */
+function fingerprintArtifacts(dir: string): string {
+  if (!existsSync(dir)) {
+    return '';
+  }
+
+  const entries: string[] = [];
+  const visit = (current: string) => {
+    for (const entry of readdirSync(current, { withFileTypes: true })) {
+      const entryPath = join(current, entry.name);
+      if (entry.isDirectory()) {
+        visit(entryPath);
+      } else if (entry.name.endsWith('.json') && !entry.name.endsWith('.dbg.json')) {
+        const stat = statSync(entryPath);
+        entries.push(`${entryPath}:${stat.size}:${stat.mtimeMs}`);
+      }
+    }
+  };
+
+  try {
+    visit(dir);
+  } catch {
+    // Files can disappear mid-compile, the next poll sees the result
+    return '';
+  }
+  return entries.sort().join('\n');
+}
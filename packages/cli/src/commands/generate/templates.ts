@@ -0,0 +1,99 @@
+// Generate templates command - List or eject the Handlebars templates used by codegen
+// Ejected templates live in .zcraft/templates and override the bundled ones
+
+import { Command, Flags } from '@oclif/core';
+import { existsSync } from 'fs';
+import { join, relative, resolve } from 'path';
+import chalk from 'chalk';
+import ora from 'ora';
+import { listTemplates } from '@zcraft/codegen';
+import {
+  DEFAULT_TEMPLATE_DIR,
+  ejectTemplates,
+  listOverrides,
+  type EjectResult,
+} from '../../utils/codegen-templates.js';
+
+export default class Templates extends Command {
+  static override description = 'List the codegen templates or eject them into the project for editing';
+
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --eject',
+    '<%= config.bin %> <%= command.id %> --eject --dir ./codegen-templates --force',
+  ];
+
+  static override flags = {
+    eject: Flags.boolean({
+      char: 'e',
+      description: 'Copy the bundled templates into the project template set',
+      default: false,
+    }),
+    dir: Flags.string({
+      char: 'd',
+      description: `Project template set (defaults to ${DEFAULT_TEMPLATE_DIR})`,
+      required: false,
+    }),
+    force: Flags.boolean({
+      char: 'f',
+      description: 'Overwrite templates already in the project',
+      default: false,
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { flags } = await this.parse(Templates);
+
+    this.log('');
+    this.log(chalk.green('⚡') + ' ' + chalk.bold.white('ZCraft') + ' : ' + chalk.gray('Generate Templates'));
+    this.log('');
+
+    const projectDir = process.cwd();
+    const templateDir = flags.dir ? resolve(flags.dir) : join(projectDir, DEFAULT_TEMPLATE_DIR);
+    const displayDir = relative(projectDir, templateDir) || '.';
+
+    if (flags.eject) {
+      const spinner = ora(`Ejecting templates to ${displayDir}...`).start();
+      let result: EjectResult;
+      try {
+        result = ejectTemplates(templateDir, flags.force);
+      } catch (error) {
+        spinner.fail(chalk.red('Failed to eject templates'));
+        this.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
+      }
+
+      spinner.succeed(
+        chalk.green(`Ejected ${result.written.length} template${result.written.length !== 1 ? 's' : ''} to ${displayDir}`)
+      );
+      if (result.skipped.length > 0) {
+        this.log(chalk.yellow(`  ⚠ Kept ${result.skipped.length} existing template${result.skipped.length !== 1 ? 's' : ''}, use --force to overwrite`));
+      }
+
+      this.log('');
+      this.log(chalk.bold('Customizing:'));
+      this.log(chalk.gray('  Edit the .hbs files, and delete those you want to keep bundled'));
+      this.log(chalk.gray(`  Partials:  ${join(displayDir, 'partials')}/<name>.hbs, used as {{> name}}`));
+      this.log(chalk.gray(`  Helpers:   ${join(displayDir, 'helpers.cjs')}, module.exports = { name: (value) => ... }`));
+      if (flags.dir) {
+        this.log(chalk.gray(`  Generate with --templates ${displayDir}`));
+      }
+      this.log('');
+      return;
+    }
+
+    // List templates and whether the project overrides them
+    const overrides = existsSync(templateDir) ? new Set(listOverrides(templateDir)) : new Set<string>();
+
+    this.log(chalk.bold('Codegen templates:'));
+    for (const name of listTemplates()) {
+      const source = overrides.has(name) ? chalk.green(`${displayDir}/${name}.hbs`) : chalk.gray('bundled');
+      this.log(`  ${chalk.cyan(name.padEnd(18))} ${source}`);
+    }
+    this.log('');
+
+    if (overrides.size === 0) {
+      this.log(chalk.gray('Run "zcraft generate templates --eject" to copy them into the project'));
+      this.log('');
+    }
+  }
+}
@@ -0,0 +1,128 @@
+// Generate test command - Generate a Hardhat test scaffold from a contract ABI
+// Specs encrypt boundary values against the FHEVM mock and decrypt the results
+
+import { Command, Flags, Args } from '@oclif/core';
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { basename, join, relative, resolve } from 'path';
+import chalk from 'chalk';
+import ora from 'ora';
+import { parseConstructorInputs, parseContractAbi, generateTestScaffold } from '@zcraft/codegen';
+import type { Abi } from 'abitype';
+import { resolveTemplateDir } from '../../utils/codegen-templates.js';
+
+export default class Test extends Command {
+  static override description = 'Generate a mocha/chai test scaffold from contract ABI';
+
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> ./artifacts/contracts/FHECounter.sol/FHECounter.json',
+    '<%= config.bin %> <%= command.id %> ./FHECounter.abi.json --output ./test/generated',
+    '<%= config.bin %> <%= command.id %> ./FHECounter.abi.json --force',
+  ];
+
+  static override args = {
+    abiPath: Args.string({
+      description: 'Path to contract ABI file or Hardhat artifact',
+      required: true,
+    }),
+  };
+
+  static override flags = {
+    name: Flags.string({
+      char: 'n',
+      description: 'Contract name (defaults to filename without extension)',
+      required: false,
+    }),
+    output: Flags.string({
+      char: 'o',
+      description: 'Output directory (defaults to ./test)',
+      required: false,
+    }),
+    force: Flags.boolean({
+      char: 'f',
+      description: 'Overwrite an existing test file',
+      default: false,
+    }),
+    templates: Flags.string({
+      char: 't',
+      description: 'Template set to render the test with (defaults to .zcraft/templates when present)',
+      required: false,
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { args, flags } = await this.parse(Test);
+
+    this.log('');
+    this.log(chalk.green('⚡') + ' ' + chalk.bold.white('ZCraft') + ' : ' + chalk.gray('Generate Test'));
+    this.log('');
+
+    const abiPath = resolve(args.abiPath);
+    const contractName = flags.name ?? basename(abiPath).replace(/\.(abi\.)?json$/i, '');
+
+    this.log(chalk.gray(`Contract: ${contractName}`));
+    this.log('');
+
+    // Read ABI file
+    const spinner = ora('Reading ABI file...').start();
+    let abi: Abi;
+    try {
+      const parsed = JSON.parse(readFileSync(abiPath, 'utf-8'));
+
+      // Handle both raw ABI arrays and Hardhat artifact format
+      if (Array.isArray(parsed)) {
+        abi = parsed;
+      } else if (parsed.abi && Array.isArray(parsed.abi)) {
+        abi = parsed.abi;
+      } else {
+        throw new Error('Invalid ABI format. Expected array or object with "abi" field.');
+      }
+
+      spinner.succeed(chalk.green('ABI file loaded'));
+    } catch (error) {
+      spinner.fail(chalk.red('Failed to read ABI file'));
+      this.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
+    }
+
+    // Generate test code
+    spinner.start('Generating test scaffold...');
+    let code: string;
+    try {
+      code = generateTestScaffold(contractName, parseContractAbi(abi), {
+        constructorInputs: parseConstructorInputs(abi),
+        templateDir: resolveTemplateDir(process.cwd(), flags.templates),
+      });
+      spinner.succeed(chalk.green('Test scaffold generated'));
+    } catch (error) {
+      spinner.fail(chalk.red('Failed to generate test scaffold'));
+      this.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
+    }
+
+    // Write output file
+    const outputDir = flags.output ? resolve(flags.output) : join(process.cwd(), 'test');
+    const outputPath = join(outputDir, `${contractName}.ts`);
+
+    // Never replace tests someone has filled in
+    if (existsSync(outputPath) && !flags.force) {
+      this.error(chalk.red(`${outputPath} already exists. Use --force to overwrite it.`));
+    }
+
+    spinner.start(`Writing to ${outputPath}...`);
+    try {
+      if (!existsSync(outputDir)) {
+        mkdirSync(outputDir, { recursive: true });
+      }
+      writeFileSync(outputPath, code, 'utf-8');
+      spinner.succeed(chalk.green(`Test scaffold written to ${outputPath}`));
+    } catch (error) {
+      spinner.fail(chalk.red('Failed to write output file'));
+      this.error(chalk.red(`Error: ${error instanceof Error ? error.message : String(error)}`));
+    }
+
+    this.log('');
+    this.log(chalk.green('✨ Done!'));
+    this.log('');
+    this.log(chalk.gray('Usage:'));
+    this.log(chalk.cyan(`  npx hardhat test ${relative(process.cwd(), outputPath)}`));
+    this.log('');
+  }
+}
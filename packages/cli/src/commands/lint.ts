@@ -0,0 +1,190 @@
+// Lint command - Check Solidity contracts for FHEVM security mistakes
+// Reports missing ACL grants and checks, decrypted branches and unguarded encrypted arithmetic
+
+import { Command, Flags, Args } from '@oclif/core';
+import { existsSync, readdirSync, statSync, writeFileSync } from 'fs';
+import { join, relative, resolve } from 'path';
+import chalk from 'chalk';
+import { lintSolidityFile, toSarif, type LintFinding } from '@zcraft/docgen';
+
+export default class Lint extends Command {
+  static override description = 'Check Solidity contracts for FHEVM security mistakes';
+
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> contracts/ConfidentialToken.sol',
+    '<%= config.bin %> <%= command.id %> ./src/contracts',
+    '<%= config.bin %> <%= command.id %> --format sarif --output zcraft-lint.sarif',
+  ];
+
+  static override args = {
+    path: Args.string({
+      description: 'Solidity file or directory to lint (defaults to the contracts directory)',
+      required: false,
+    }),
+  };
+
+  static override flags = {
+    format: Flags.string({
+      char: 'f',
+      description: 'Report format',
+      options: ['pretty', 'sarif'],
+      default: 'pretty',
+    }),
+    output: Flags.string({
+      char: 'o',
+      description: 'Write the report to a file instead of printing it',
+      required: false,
+    }),
+  };
+
+  async run(): Promise<void> {
+    const { args, flags } = await this.parse(Lint);
+
+    const lintPath = args.path ? resolve(args.path) : join(this.findProjectDir(), 'contracts');
+    if (!existsSync(lintPath)) {
+      this.error(chalk.red(`Path not found: ${relative(process.cwd(), lintPath) || lintPath}`));
+    }
+
+    const files = findSolidityFiles(lintPath);
+
+    if (files.length === 0) {
+      this.error(chalk.red('No Solidity files found'));
+    }
+
+    const findings: LintFinding[] = [];
+    for (const file of files) {
+      const displayPath = relative(process.cwd(), file).split('\\').join('/');
+      try {
+        findings.push(...(await lintSolidityFile(file, { file: displayPath })));
+      } catch (error) {
+        // Report the file and keep linting the others
+        findings.push(getParseErrorFinding(error, displayPath));
+      }
+    }
+
+    if (flags.format === 'sarif') {
+      const report = `${JSON.stringify(toSarif(findings), null, 2)}\n`;
+      if (flags.output) {
+        writeFileSync(resolve(flags.output), report, 'utf-8');
+        this.log(chalk.green(`✓ SARIF report written to ${relative(process.cwd(), resolve(flags.output))}`));
+      } else {
+        process.stdout.write(report);
+      }
+    } else if (flags.output) {
+      writeFileSync(resolve(flags.output), formatFindings(findings), 'utf-8');
+      this.log(chalk.green(`✓ Report written to ${relative(process.cwd(), resolve(flags.output))}`));
+    } else {
+      this.printFindings(findings, files.length);
+    }
+
+    if (findings.some((finding) => finding.severity === 'error')) {
+      this.exit(1);
+    }
+  }
+
+  /**
+   * Print findings to the terminal, grouped by file
+   */
+  private printFindings(findings: LintFinding[], fileCount: number): void {
+    this.log('');
+    this.log(chalk.green('⚡') + ' ' + chalk.bold.white('ZCraft') + ' : ' + chalk.gray('FHEVM Lint'));
+    this.log('');
+
+    if (findings.length === 0) {
+      this.log(chalk.green(`✓ No problems in ${fileCount} file${fileCount !== 1 ? 's' : ''}`));
+      this.log('');
+      return;
+    }
+
+    for (const [file, fileFindings] of groupByFile(findings)) {
+      this.log(chalk.underline(file));
+      for (const finding of fileFindings) {
+        const severity =
+          finding.severity === 'error' ? chalk.red('error'.padEnd(8)) : chalk.yellow('warning'.padEnd(8));
+        const location = chalk.gray(
+          finding.contract ? `${finding.contract}.${finding.function}  ${finding.ruleId}` : finding.ruleId
+        );
+        this.log(`  ${chalk.gray(String(finding.line).padStart(4))}  ${severity}${finding.message} ${location}`);
+      }
+      this.log('');
+    }
+
+    const errors = findings.filter((finding) => finding.severity === 'error').length;
+    const warnings = findings.length - errors;
+    const summary = `${findings.length} problem${findings.length !== 1 ? 's' : ''} (${errors} error${errors !== 1 ? 's' : ''}, ${warnings} warning${warnings !== 1 ? 's' : ''})`;
+    this.log(errors > 0 ? chalk.red(`✗ ${summary}`) : chalk.yellow(`⚠ ${summary}`));
+    this.log(chalk.gray('  Suppress a finding with // zcraft-lint-disable-next-line <rule>'));
+    this.log('');
+  }
+
+  /**
+   * Find project directory (with hardhat.config)
+   */
+  private findProjectDir(): string {
+    let currentDir = process.cwd();
+
+    while (currentDir !== '/') {
+      if (existsSync(join(currentDir, 'hardhat.config.ts')) || existsSync(join(currentDir, 'hardhat.config.js'))) {
+        return currentDir;
+      }
+      currentDir = resolve(currentDir, '..');
+    }
+
+    return process.cwd();
+  }
+}
+
+/**
+ * Solidity files at a path, searching directories recursively
+ */
+function findSolidityFiles(path: string): string[] {
+  if (!statSync(path).isDirectory()) {
+    return path.endsWith('.sol') ? [path] : [];
+  }
+
+  return readdirSync(path)
+    .filter((entry) => entry !== 'node_modules' && !entry.startsWith('.'))
+    .sort()
+    .flatMap((entry) => findSolidityFiles(join(path, entry)));
+}
+
+/**
+ * Group findings by file, keeping their order
+ */
+function groupByFile(findings: LintFinding[]): Map<string, LintFinding[]> {
+  const groups = new Map<string, LintFinding[]>();
+  for (const finding of findings) {
+    const file = finding.file ?? '';
+    groups.set(file, [...(groups.get(file) ?? []), finding]);
+  }
+  return groups;
+}
+
+/**
+ * Plain text report for writing to a file
+ */
+function formatFindings(findings: LintFinding[]): string {
+  const lines = findings.map((finding) => {
+    const location = finding.contract ? ` (${finding.contract}.${finding.function})` : '';
+    return `${finding.file}:${finding.line}: ${finding.severity} ${finding.ruleId}: ${finding.message}${location}`;
+  });
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
+
+/**
+ * Finding for a file that could not be read or parsed, at the parser's error line when known
+ */
+function getParseErrorFinding(error: unknown, file: string): LintFinding {
+  const line = (error as { errors?: Array<{ line?: number }> })?.errors?.[0]?.line ?? 1;
+
+  return {
+    ruleId: 'parse-error',
+    severity: 'error',
+    message: `Failed to parse: ${error instanceof Error ? error.message : String(error)}`,
+    file,
+    line,
+    contract: '',
+    function: '',
+  };
+}
@@ -0,0 +1,159 @@
+// Tab completion and signature hints for the FHEVM REPL
+// Completes function names, built-in commands, signer indexes and FHE types
+
+import type { Contract } from 'ethers';
+import { getFheTypeNames, type ParsedFunction, type ParsedParameter } from '@zcraft/codegen';
+
+/**
+ * What the completer can see of the current REPL session
+ */
+export interface CompletionContext {
+  contract: Contract;
+  functions: ParsedFunction[];
+  signerCount: () => number;
+  variables: () => string[];
+}
+
+/**
+ * Built-in commands completed as a bare word
+ */
+const WORD_COMMANDS = [
+  'signers',
+  'functions',
+  'info',
+  'fhe',
+  'history',
+  'network',
+  'mode',
+  'watch',
+  'unwatch',
+  'batch',
+  'save',
+  'load',
+  'expect',
+  'help',
+  'clear',
+  'exit',
+];
+
+/**
+ * Built-in commands completed with an opening parenthesis, with their hints
+ */
+const CALL_COMMANDS: Record<string, string> = {
+  decrypt: 'decrypt(call | handle)',
+  encrypt: 'encrypt(value[, type])',
+  estimate: 'estimate(call)',
+  signer: 'signer(index | privateKey)',
+  replay: 'replay(index)',
+};
+
+/**
+ * Complete the word before the cursor, in the shape readline expects
+ */
+export function complete(context: CompletionContext, line: string): [string[], string] {
+  const word = line.match(/[\w$]*$/)?.[0] ?? '';
+  const before = line.slice(0, line.length - word.length);
+  const hits = candidatesFor(context, before, word).filter((candidate) =>
+    candidate.startsWith(word),
+  );
+
+  return [hits, word];
+}
+
+/**
+ * Signature of the innermost call still open at the end of the line
+ */
+export function signatureHint(context: CompletionContext, line: string): string | null {
+  const match = line.match(/(\w+)\s*\(([^()]*)$/);
+  if (!match) {
+    return null;
+  }
+
+  const name = match[1];
+  const overloads = context.functions.filter((fn) => fn.name === name);
+
+  if (overloads.length > 0) {
+    return overloads.map(formatSignature).join('  |  ');
+  }
+
+  return CALL_COMMANDS[name] ?? null;
+}
+
+/**
+ * Candidates for a word given the text before it
+ */
+function candidatesFor(context: CompletionContext, before: string, word: string): string[] {
+  const prefix = before.trimStart();
+
+  if (word.startsWith('$')) {
+    return context.variables().map((name) => `$${name}`);
+  }
+  if (/signer\s*\(\s*$/.test(prefix)) {
+    return Array.from({ length: context.signerCount() }, (_, index) => String(index));
+  }
+  if (/encrypt\s*\(.*,\s*$/.test(prefix)) {
+    return getFheTypeNames();
+  }
+  if (/^help\s+$/.test(prefix)) {
+    return [...WORD_COMMANDS, ...Object.keys(CALL_COMMANDS)];
+  }
+  if (/^(un)?watch\s+$/.test(prefix)) {
+    return eventNames(context.contract);
+  }
+  if (/^mode\s+$/.test(prefix)) {
+    return ['direct', 'task'];
+  }
+
+  const functions = functionNames(context.contract).map((name) => `${name}(`);
+
+  // Start of a command: the line, an expect, or a batch statement
+  if (prefix === '' || /^expect\s+$/.test(prefix) || /[{;]\s*$/.test(prefix)) {
+    const calls = Object.keys(CALL_COMMANDS).map((name) => `${name}(`);
+    return [...functions, ...calls, ...WORD_COMMANDS];
+  }
+
+  // Inside arguments: nested calls such as decrypt(getCount())
+  if (/[(,]\s*$/.test(prefix)) {
+    return [...functions, 'encrypt('];
+  }
+
+  return [];
+}
+
+/**
+ * Function names from the contract interface
+ */
+function functionNames(contract: Contract): string[] {
+  const names = new Set<string>();
+  contract.interface.forEachFunction((fragment) => names.add(fragment.name));
+  return [...names].sort();
+}
+
+/**
+ * Event names from the contract interface
+ */
+function eventNames(contract: Contract): string[] {
+  const names = new Set<string>();
+  contract.interface.forEachEvent((fragment) => names.add(fragment.name));
+  return [...names].sort();
+}
+
+/**
+ * Format a function as the REPL calls it, without the input proof
+ */
+function formatSignature(fn: ParsedFunction): string {
+  const params = fn.inputs
+    .filter((input) => input.name !== 'inputProof')
+    .map((input) => `${typeName(input)}${input.name ? ` ${input.name}` : ''}`)
+    .join(', ');
+  const returns = fn.outputs.length > 0 ? ` -> ${fn.outputs.map(typeName).join(', ')}` : '';
+
+  return `${fn.name}(${params})${returns}`;
+}
+
+/**
+ * Solidity type of a parameter, preferring FHE types over bytes32
+ */
+function typeName(param: ParsedParameter): string {
+  return param.fhevmInfo?.solType ?? param.type;
+}
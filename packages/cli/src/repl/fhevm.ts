@@ -0,0 +1,260 @@
+// FHEVM session for the REPL
+// Encrypts inputs and decrypts handles in-process against the mock coprocessor of a Hardhat FHEVM node
+
+import { ZeroHash, hexlify, isAddress, type JsonRpcProvider, type Signer } from 'ethers';
+import {
+  MockFhevmInstance,
+  contracts,
+  relayer,
+  userDecryptHandleBytes32,
+  type FhevmKeypair,
+} from '@fhevm/mock-utils';
+import { isFheTypeName, parseEncryptedValue, type FheTypeName } from '@zcraft/codegen';
+
+/**
+ * FHEVM addresses and chain IDs reported by the node
+ */
+export type FhevmMetadata = relayer.RelayerMetadata;
+
+/**
+ * Plaintext value accepted by the encryption builder
+ */
+export type ClearValue = bigint | boolean | string;
+
+/**
+ * A single value to encrypt
+ */
+export interface EncryptionInput {
+  fheType: FheTypeName;
+  value: ClearValue;
+}
+
+/**
+ * Result of encrypting one or more values in a single input proof
+ */
+export interface EncryptionResult {
+  handles: string[];
+  inputProof: string;
+}
+
+/**
+ * Encrypted value stored in a REPL variable
+ */
+export interface EncryptedVariable {
+  name: string;
+  fheType: FheTypeName;
+  value: ClearValue;
+  handle: string;
+  inputProof: string;
+  contractAddress: string;
+  userAddress: string;
+}
+
+/**
+ * Lazily connected FHEVM instance bound to the REPL provider
+ */
+export class FhevmSession {
+  private provider: JsonRpcProvider;
+  private metadata: FhevmMetadata | null;
+  private instance: MockFhevmInstance | null;
+  private keypairs: Map<string, FhevmKeypair>;
+
+  constructor(provider: JsonRpcProvider) {
+    this.provider = provider;
+    this.metadata = null;
+    this.instance = null;
+    this.keypairs = new Map();
+  }
+
+  /**
+   * Fetch the FHEVM addresses exposed by the node
+   */
+  async getMetadata(): Promise<FhevmMetadata> {
+    if (this.metadata) {
+      return this.metadata;
+    }
+
+    try {
+      this.metadata = await relayer.requestRelayerMetadata(this.provider);
+    } catch {
+      throw new Error(
+        'FHEVM metadata not available. Is the node a Hardhat node running the FHEVM plugin?',
+      );
+    }
+
+    return this.metadata;
+  }
+
+  /**
+   * Whether the node exposes an FHEVM mock that in-process encryption can use
+   */
+  async isAvailable(): Promise<boolean> {
+    try {
+      await this.getMetadata();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Encrypt values for a contract and user, sharing one input proof
+   */
+  async encrypt(
+    contractAddress: string,
+    userAddress: string,
+    inputs: EncryptionInput[],
+  ): Promise<EncryptionResult> {
+    if (inputs.length === 0) {
+      throw new Error('Nothing to encrypt');
+    }
+
+    const instance = await this.getInstance();
+    const builder = instance.createEncryptedInput(contractAddress, userAddress);
+
+    for (const input of inputs) {
+      addToBuilder(builder, input);
+    }
+
+    const encrypted = await builder.encrypt();
+
+    return {
+      handles: encrypted.handles.map((handle) => hexlify(handle)),
+      inputProof: hexlify(encrypted.inputProof),
+    };
+  }
+
+  /**
+   * Decrypt a handle the user has been granted access to
+   */
+  async userDecrypt(contractAddress: string, handle: string, user: Signer): Promise<ClearValue> {
+    if (handle === ZeroHash) {
+      return 0n;
+    }
+
+    const instance = await this.getInstance();
+    const userAddress = await user.getAddress();
+
+    // One keypair per signer, so switching back and forth does not regenerate keys
+    let keypair = this.keypairs.get(userAddress);
+    if (!keypair) {
+      keypair = instance.generateKeypair();
+      this.keypairs.set(userAddress, keypair);
+    }
+
+    const results = await userDecryptHandleBytes32(
+      instance,
+      [{ handleBytes32: handle, contractAddress }],
+      user,
+      { keypair },
+    );
+
+    const entry = Object.entries(results).find(
+      ([key]) => key.toLowerCase() === handle.toLowerCase(),
+    );
+    if (!entry) {
+      throw new Error(`No decrypted value returned for handle ${handle}`);
+    }
+
+    return entry[1];
+  }
+
+  /**
+   * Create the mock FHEVM instance on first use
+   */
+  private async getInstance(): Promise<MockFhevmInstance> {
+    if (this.instance) {
+      return this.instance;
+    }
+
+    const metadata = await this.getMetadata();
+    const repository = await contracts.FhevmContractsRepository.create(this.provider, {
+      aclContractAddress: metadata.ACLAddress,
+      kmsContractAddress: metadata.KMSVerifierAddress,
+    });
+
+    this.instance = await MockFhevmInstance.create(this.provider, this.provider, {
+      verifyingContractAddressDecryption: repository.kmsVerifier.gatewayDecryptionAddress,
+      verifyingContractAddressInputVerification:
+        repository.inputVerifier.gatewayInputVerificationAddress,
+      kmsContractAddress: metadata.KMSVerifierAddress,
+      inputVerifierContractAddress: metadata.InputVerifierAddress,
+      aclContractAddress: metadata.ACLAddress,
+      chainId: metadata.chainId,
+      gatewayChainId: metadata.gatewayChainId,
+    });
+
+    return this.instance;
+  }
+}
+
+/**
+ * Parse an FHE type name such as euint32 or externalEuint32
+ */
+export function parseFheType(name: string): FheTypeName {
+  const normalized = name.startsWith('external') ? name.substring(8).toLowerCase() : name;
+
+  if (!isFheTypeName(normalized)) {
+    throw new Error(`Unknown FHE type: ${name}`);
+  }
+
+  return normalized;
+}
+
+/**
+ * Guess the FHE type of a plaintext when none is given
+ */
+export function inferFheType(value: any): FheTypeName {
+  if (typeof value === 'boolean') {
+    return 'ebool';
+  }
+  if (typeof value === 'string' && isAddress(value)) {
+    return 'eaddress';
+  }
+  return 'euint32';
+}
+
+/**
+ * Convert a parsed REPL value into a plaintext for the given FHE type,
+ * rejecting values that do not fit its bit width
+ */
+export function toClearValue(fheType: FheTypeName, value: any): ClearValue {
+  return parseEncryptedValue(fheType, value);
+}
+
+/**
+ * Append a value to an encrypted input builder
+ */
+function addToBuilder(
+  builder: ReturnType<MockFhevmInstance['createEncryptedInput']>,
+  input: EncryptionInput,
+): void {
+  const value = toClearValue(input.fheType, input.value);
+
+  switch (input.fheType) {
+    case 'ebool':
+      builder.addBool(value as boolean);
+      break;
+    case 'euint8':
+      builder.add8(value as bigint);
+      break;
+    case 'euint16':
+      builder.add16(value as bigint);
+      break;
+    case 'euint32':
+      builder.add32(value as bigint);
+      break;
+    case 'euint64':
+      builder.add64(value as bigint);
+      break;
+    case 'euint128':
+      builder.add128(value as bigint);
+      break;
+    case 'eaddress':
+      builder.addAddress(value as string);
+      break;
+    case 'euint256':
+      builder.add256(value as bigint);
+      break;
+  }
+}
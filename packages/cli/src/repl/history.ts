@@ -0,0 +1,82 @@
+// History persistence for the FHEVM REPL
+// Keeps transaction history and input lines per project, network and contract
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import type { HistoryEntry } from './repl.js';
+
+/**
+ * Maximum number of transaction entries kept on disk
+ */
+const MAX_ENTRIES = 500;
+
+/**
+ * Maximum number of input lines recalled with the up arrow
+ */
+export const MAX_LINES = 1000;
+
+/**
+ * History saved between REPL sessions
+ */
+export interface StoredHistory {
+  entries: HistoryEntry[];
+  lines: string[]; // Most recent first, as readline expects
+}
+
+/**
+ * Reads and writes .zcraft/history/<network>/<contract>.json in the project
+ */
+export class HistoryStore {
+  private filePath: string;
+  private pending: Promise<void>;
+
+  constructor(projectDir: string, network: string, contractName: string) {
+    this.filePath = path.join(projectDir, '.zcraft', 'history', network, `${contractName}.json`);
+    this.pending = Promise.resolve();
+  }
+
+  /**
+   * Load saved history, starting empty if none exists or it can't be read
+   */
+  async load(): Promise<StoredHistory> {
+    try {
+      const content = await readFile(this.filePath, 'utf-8');
+      const stored = JSON.parse(content);
+
+      return {
+        entries: (stored.entries ?? []).map((entry: any) => ({
+          ...entry,
+          gasUsed: entry.gasUsed === undefined ? undefined : BigInt(entry.gasUsed),
+          timestamp: new Date(entry.timestamp),
+        })),
+        lines: stored.lines ?? [],
+      };
+    } catch {
+      return { entries: [], lines: [] };
+    }
+  }
+
+  /**
+   * Save history, writing one snapshot at a time
+   */
+  save(history: StoredHistory): Promise<void> {
+    const content = JSON.stringify(
+      {
+        entries: history.entries.slice(-MAX_ENTRIES),
+        lines: history.lines.slice(0, MAX_LINES),
+      },
+      (_key, value) => (typeof value === 'bigint' ? value.toString() : value),
+      2,
+    );
+
+    const write = async () => {
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      await writeFile(this.filePath, content);
+    };
+
+    // A failed write must not block the ones after it
+    this.pending = this.pending.then(write, write);
+
+    return this.pending;
+  }
+}
@@ -1,6 +1,8 @@
 // Command parser for FHEVM REPL
 // Parses user input into structured commands
 
+import { parseUnits } from 'ethers';
+
 export type CommandType =
   | 'function_call'
   | 'decrypt'
@@ -19,7 +21,16 @@ export type CommandType =
   | 'exit'
   | 'estimate'
   | 'watch'
-  | 'batch';
+  | 'unwatch'
+  | 'batch'
+  | 'save'
+  | 'load'
+  | 'expect';
+
+/**
+ * Comparison used by expect lines
+ */
+export type ExpectOperator = '==' | '!=' | '>=' | '<=' | '>' | '<';
 
 export interface ParsedCommand {
   type: CommandType;
@@ -28,6 +39,7 @@ export interface ParsedCommand {
   expression?: string;
   command?: string;
   index?: number;
+  variable?: string;
   options?: Record<string, any>;
 }
 
@@ -54,6 +66,8 @@ export function parseCommand(input: string): ParsedCommand {
   if (trimmed === 'history') return { type: 'history' };
   if (trimmed === 'network') return { type: 'network' };
   if (trimmed === 'mode') return { type: 'mode' };
+  if (trimmed === 'watch') return { type: 'watch' };
+  if (trimmed === 'unwatch') return { type: 'unwatch' };
 
   // Handle help with specific command
   if (trimmed.startsWith('help ')) {
@@ -61,6 +75,32 @@ export function parseCommand(input: string): ParsedCommand {
     return { type: 'help', command };
   }
 
+  // Handle mode with explicit target: mode direct
+  const modeMatch = trimmed.match(/^mode\s+(\w+)$/);
+  if (modeMatch) {
+    return { type: 'mode', expression: modeMatch[1] };
+  }
+
+  // Handle session files: save session.zc / load session.zc
+  const sessionMatch = trimmed.match(/^(save|load)\s+(\S+)$/);
+  if (sessionMatch) {
+    return { type: sessionMatch[1] as 'save' | 'load', expression: sessionMatch[2] };
+  }
+
+  // Handle assertions: expect decrypt(getCount()) == 5
+  const expectMatch = trimmed.match(/^expect\s+(.+?)\s*(==|!=|>=|<=|>|<)\s*(.+)$/);
+  if (expectMatch) {
+    return {
+      type: 'expect',
+      expression: expectMatch[1],
+      options: {
+        command: parseCommand(expectMatch[1]),
+        operator: expectMatch[2] as ExpectOperator,
+        expected: parseValue(expectMatch[3]),
+      },
+    };
+  }
+
   // Handle history clear
   if (trimmed === 'history clear') {
     return { type: 'history', options: { clear: true } };
@@ -88,12 +128,22 @@ export function parseCommand(input: string): ParsedCommand {
     };
   }
 
-  // Handle encrypt: encrypt(5)
+  // Handle encrypt: encrypt(5) or encrypt(42, euint32)
   const encryptMatch = trimmed.match(/^encrypt\s*\(\s*(.+?)\s*\)$/);
   if (encryptMatch) {
     return {
       type: 'encrypt',
       expression: encryptMatch[1],
+      args: parseArguments(encryptMatch[1]),
+    };
+  }
+
+  // Handle assignment: amount = encrypt(42, euint32)
+  const assignMatch = trimmed.match(/^(\w+)\s*=\s*(encrypt\s*\(.+\))$/);
+  if (assignMatch) {
+    return {
+      ...parseCommand(assignMatch[2]),
+      variable: assignMatch[1],
     };
   }
 
@@ -116,7 +166,7 @@ export function parseCommand(input: string): ParsedCommand {
     };
   }
 
-  // Handle watch: watch getCount() or watch decrypt(getCount())
+  // Handle watch: watch Transfer
   const watchMatch = trimmed.match(/^watch\s+(.+)$/);
   if (watchMatch) {
     return {
@@ -125,34 +175,100 @@ export function parseCommand(input: string): ParsedCommand {
     };
   }
 
-  // Handle batch: batch { increment(1), increment(2) }
+  // Handle unwatch: unwatch Transfer
+  const unwatchMatch = trimmed.match(/^unwatch\s+(.+)$/);
+  if (unwatchMatch) {
+    return {
+      type: 'unwatch',
+      expression: unwatchMatch[1],
+    };
+  }
+
+  // Handle batch: batch { bid(100); reveal() } (statements separated by ; or ,)
   const batchMatch = trimmed.match(/^batch\s*\{(.+)\}$/);
   if (batchMatch) {
-    const commands = batchMatch[1]
-      .split(',')
-      .map((cmd) => parseCommand(cmd.trim()));
+    const statements = splitTopLevel(batchMatch[1], [';', ',']).filter((stmt) => stmt !== '');
+    const commands = statements.map((stmt) => parseCommand(stmt));
     return {
       type: 'batch',
-      options: { commands },
+      options: { commands, statements },
+    };
+  }
+
+  // Handle overloads called by signature: transfer(address,euint64)(0x..., 0x...)
+  const signatureMatch = trimmed.match(
+    /^(\w+\s*\([\w\s,.[\]]*\))\s*(?:\{([^}]*)\}\s*)?\(\s*(.*?)\s*\)$/
+  );
+  if (signatureMatch) {
+    return {
+      type: 'function_call',
+      functionName: signatureMatch[1].replace(/\s+/g, ''),
+      args: parseArguments(signatureMatch[3]),
+      options: parseCallOptions(signatureMatch[2]),
     };
   }
 
-  // Handle function calls: functionName(arg1, arg2, ...)
-  const functionMatch = trimmed.match(/^(\w+)\s*\(\s*(.*?)\s*\)$/);
+  // Handle function calls: functionName(arg1, arg2, ...) or deposit{value: 1 ether}(...)
+  const functionMatch = trimmed.match(/^(\w+)\s*(?:\{([^}]*)\}\s*)?\(\s*(.*?)\s*\)$/);
   if (functionMatch) {
-    const [, functionName, argsStr] = functionMatch;
+    const [, functionName, optionsStr, argsStr] = functionMatch;
     const args = parseArguments(argsStr);
 
     return {
       type: 'function_call',
       functionName,
       args,
+      options: parseCallOptions(optionsStr),
     };
   }
 
   throw new Error(`Unknown command: ${trimmed}`);
 }
 
+/**
+ * Parse the call options between braces: {value: 1 ether}
+ * @param optionsStr Options string, undefined when the call has none
+ * @returns Options with the value in wei, or undefined
+ */
+function parseCallOptions(optionsStr: string | undefined): Record<string, any> | undefined {
+  if (optionsStr === undefined) return undefined;
+
+  const options: Record<string, any> = {};
+  for (const entry of splitTopLevel(optionsStr, [','])) {
+    if (entry === '') continue;
+
+    const match = entry.match(/^(\w+)\s*:\s*(.+)$/);
+    if (!match) {
+      throw new Error(`Invalid call option: ${entry}`);
+    }
+    if (match[1] !== 'value') {
+      throw new Error(`Unknown call option '${match[1]}', only value is supported`);
+    }
+    options.value = parseEtherAmount(match[2]);
+  }
+
+  return options;
+}
+
+/**
+ * Parse an ether amount: wei by default, or with a unit such as 1 ether or 0.5gwei
+ * @param amount Amount with an optional unit
+ * @returns Amount in wei
+ */
+export function parseEtherAmount(amount: string): bigint {
+  const match = amount.trim().match(/^(\d+(?:\.\d+)?)\s*(wei|gwei|ether)?$/i);
+  if (!match) {
+    throw new Error(`Invalid amount '${amount}', expected e.g. 1 ether, 0.5gwei or 1000`);
+  }
+
+  const [, number, unit = 'wei'] = match;
+  try {
+    return parseUnits(number, unit.toLowerCase());
+  } catch {
+    throw new Error(`Invalid amount '${amount}', too many decimals for ${unit}`);
+  }
+}
+
 /**
  * Parse function arguments from a comma-separated string
  * Handles: numbers, strings, booleans, addresses, encrypt() calls
@@ -162,16 +278,32 @@ export function parseCommand(input: string): ParsedCommand {
 function parseArguments(argsStr: string): any[] {
   if (!argsStr.trim()) return [];
 
-  // Split by commas (handle nested parens)
-  const args = [];
+  const args = splitTopLevel(argsStr, [',']);
+
+  // Drop a trailing empty argument: f(1, 2, )
+  if (args[args.length - 1] === '') {
+    args.pop();
+  }
+
+  return args.map((arg) => parseValue(arg));
+}
+
+/**
+ * Split a string on separators that appear outside parentheses, braces and strings
+ * @param input String to split
+ * @param separators Single-character separators
+ * @returns Trimmed parts
+ */
+function splitTopLevel(input: string, separators: string[]): string[] {
+  const parts = [];
   let current = '';
   let depth = 0;
   let inString = false;
   let stringChar = '';
 
-  for (let i = 0; i < argsStr.length; i++) {
-    const char = argsStr[i];
-    const prevChar = i > 0 ? argsStr[i - 1] : '';
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    const prevChar = i > 0 ? input[i - 1] : '';
 
     // Track string boundaries
     if ((char === '"' || char === "'") && prevChar !== '\\') {
@@ -184,32 +316,29 @@ function parseArguments(argsStr: string): any[] {
       }
     }
 
-    // Track parenthesis depth (only outside strings)
+    // Track nesting depth (only outside strings)
     if (!inString) {
-      if (char === '(') depth++;
-      if (char === ')') depth--;
+      if (char === '(' || char === '{' || char === '[') depth++;
+      if (char === ')' || char === '}' || char === ']') depth--;
     }
 
-    // Split on comma only at depth 0 and outside strings
-    if (char === ',' && depth === 0 && !inString) {
-      args.push(parseValue(current.trim()));
+    // Split only at depth 0 and outside strings
+    if (separators.includes(char) && depth === 0 && !inString) {
+      parts.push(current.trim());
       current = '';
     } else {
       current += char;
     }
   }
 
-  // Add last argument
-  if (current.trim()) {
-    args.push(parseValue(current.trim()));
-  }
+  parts.push(current.trim());
 
-  return args;
+  return parts;
 }
 
 /**
  * Parse a single argument value
- * Supports: numbers, hex values, strings, booleans, encrypt() wrapper
+ * Supports: numbers, hex values, strings, booleans, encrypt() wrapper, $variables
  * @param value String representation of the value
  * @returns Parsed value
  */
@@ -225,9 +354,19 @@ function parseValue(value: string): any {
     };
   }
 
-  // Number (integer or float)
+  // Variable reference: $amount
+  const variableMatch = value.match(/^\$(\w+)$/);
+  if (variableMatch) {
+    return {
+      __variable: true,
+      name: variableMatch[1],
+    };
+  }
+
+  // Number (integer or float), as a bigint when too large for a number
   if (/^-?\d+(\.\d+)?$/.test(value)) {
-    return value.includes('.') ? parseFloat(value) : parseInt(value);
+    const number = Number(value);
+    return value.includes('.') || Number.isSafeInteger(number) ? number : BigInt(value);
   }
 
   // Hex value (address or bytes)
@@ -277,3 +416,17 @@ export function unwrapEncrypted(value: any): any {
   }
   return value;
 }
+
+/**
+ * Check if a value is a reference to a REPL variable ($name)
+ * @param value The parsed value
+ * @returns True if value refers to a variable
+ */
+export function isVariableReference(value: any): value is { __variable: true; name: string } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    '__variable' in value &&
+    value.__variable === true
+  );
+}
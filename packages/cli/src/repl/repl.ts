@@ -1,14 +1,64 @@
 // Interactive REPL engine for FHEVM contract interaction
 // Provides command-line interface for calling encrypted contract functions
 
-import { createInterface, type Interface as ReadlineInterface } from 'readline';
-import { Contract, type Signer } from 'ethers';
+import {
+  clearLine,
+  createInterface,
+  cursorTo,
+  moveCursor,
+  type Interface as ReadlineInterface,
+} from 'readline';
+import {
+  Wallet,
+  formatEther,
+  isAddress,
+  formatUnits,
+  type Contract,
+  type ContractEventPayload,
+  type EventFragment,
+  type FunctionFragment,
+  type Listener,
+  type JsonRpcProvider,
+  type Signer,
+} from 'ethers';
 import { spawn } from 'child_process';
+import { readFile, writeFile } from 'fs/promises';
+import path from 'path';
 import chalk from 'chalk';
+import type { Abi } from 'abitype';
 import {
+  detectFHEVMType,
+  getDecryptTaskName,
+  getDisplaySignature,
+  getFunctionSignature,
+  getOverloadedNames,
+  getTaskName,
+  getValueParamName,
+  parseContractAbi,
+  type FheTypeName,
+  type ParsedFunction,
+  type ParsedParameter,
+} from '@zcraft/codegen';
+import {
+  isVariableReference,
   parseCommand,
+  shouldEncrypt,
+  unwrapEncrypted,
+  type ExpectOperator,
   type ParsedCommand,
 } from './parser.js';
+import {
+  FhevmSession,
+  inferFheType,
+  parseFheType,
+  toClearValue,
+  type ClearValue,
+  type EncryptedVariable,
+  type EncryptionInput,
+  type FhevmMetadata,
+} from './fhevm.js';
+import { HistoryStore, MAX_LINES } from './history.js';
+import { complete, signatureHint, type CompletionContext } from './completer.js';
 
 /**
  * Transaction history entry
@@ -38,6 +88,162 @@ export interface ReplConfig {
   network: string;
   chainId: number;
   projectDir: string; // Project directory
+  provider: JsonRpcProvider;
+  abi: Abi;
+  mode?: ExecutionMode; // Defaults to direct
+}
+
+/**
+ * How function calls are executed: generated Hardhat tasks or ethers in-process
+ */
+export type ExecutionMode = 'task' | 'direct';
+
+/**
+ * Outcome of a call sent directly through ethers
+ */
+interface CallOutcome {
+  functionName: string;
+  txHash?: string;
+  blockNumber?: number;
+  gasUsed?: bigint;
+  status: string;
+  result?: any;
+}
+
+/**
+ * Function call with arguments ready to send to the contract
+ */
+interface PreparedCall {
+  fragment: FunctionFragment;
+  callArgs: any[];
+  isView: boolean;
+}
+
+/**
+ * Commands that change contract or session state, written out by save
+ */
+const RECORDED_COMMANDS = new Set<ParsedCommand['type']>([
+  'function_call',
+  'decrypt',
+  'encrypt',
+  'estimate',
+  'watch',
+  'unwatch',
+  'batch',
+  'signer',
+  'mode',
+  'expect',
+]);
+
+/**
+ * Compare a call or decryption result against an expected REPL value
+ */
+function compareValues(actual: any, operator: ExpectOperator, expected: any): boolean {
+  const left = toComparable(actual);
+  const right = toComparable(expected);
+
+  switch (operator) {
+    case '==':
+      return left === right;
+    case '!=':
+      return left !== right;
+  }
+
+  if (typeof left !== 'bigint' || typeof right !== 'bigint') {
+    throw new Error(`${operator} needs numeric values, got ${actual} and ${expected}`);
+  }
+
+  switch (operator) {
+    case '>=':
+      return left >= right;
+    case '<=':
+      return left <= right;
+    case '>':
+      return left > right;
+    case '<':
+      return left < right;
+  }
+}
+
+/**
+ * Normalize numbers to bigint and hex strings to lowercase for comparison
+ */
+function toComparable(value: any): bigint | boolean | string {
+  if (typeof value === 'bigint' || typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'number' && Number.isInteger(value)) {
+    return BigInt(value);
+  }
+  if (typeof value === 'string' && /^-?\d+$/.test(value)) {
+    return BigInt(value);
+  }
+  if (typeof value === 'string' && value.startsWith('0x')) {
+    return value.toLowerCase();
+  }
+  return String(value);
+}
+
+/**
+ * Whether a REPL argument could be passed for a parameter, used to pick between overloads
+ */
+function acceptsArgument(param: ParsedParameter, arg: any): boolean {
+  // Variables are resolved later, so they fit any parameter
+  if (isVariableReference(arg)) {
+    return true;
+  }
+  if (shouldEncrypt(arg)) {
+    return param.fhevmInfo?.isExternal === true;
+  }
+
+  const isInteger =
+    (typeof arg === 'number' && Number.isInteger(arg)) || typeof arg === 'bigint';
+  const isHandle = typeof arg === 'string' && /^0x[0-9a-fA-F]{64}$/.test(arg);
+  const isAddressArg = typeof arg === 'string' && isAddress(arg);
+
+  const info = param.fhevmInfo;
+  if (info?.isExternal) {
+    if (info.fhevmTypeName === 'ebool') {
+      return typeof arg === 'boolean' || arg === 0 || arg === 1;
+    }
+    if (info.fhevmTypeName === 'eaddress') {
+      return isAddressArg;
+    }
+    return isInteger;
+  }
+  if (info || param.type === 'bytes32') {
+    return isHandle;
+  }
+  if (/^u?int\d*$/.test(param.type)) {
+    return isInteger;
+  }
+  if (param.type === 'bool') {
+    return typeof arg === 'boolean';
+  }
+  if (param.type === 'address') {
+    return isAddressArg;
+  }
+  return true;
+}
+
+/**
+ * Reject ether sent to a function that can't receive it
+ */
+function checkValue(func: ParsedFunction, value: bigint | undefined): void {
+  if (value !== undefined && value > 0n && func.stateMutability !== 'payable') {
+    throw new Error(`${func.name} is not payable and can't receive ether`);
+  }
+}
+
+/**
+ * Check the plaintext given for an external encrypted input against the bit width of its type
+ */
+function checkEncryptedArg(input: ParsedParameter, fheType: FheTypeName, arg: any): ClearValue {
+  try {
+    return toClearValue(fheType, unwrapEncrypted(arg));
+  } catch (error) {
+    throw new Error(`${input.name || 'argument'}: ${error instanceof Error ? error.message : String(error)}`);
+  }
 }
 
 /**
@@ -49,6 +255,17 @@ export class FHEVMRepl {
   private historyIndex: number;
   private isRunning: boolean;
   private config: ReplConfig;
+  private fhevm: FhevmSession;
+  private variables: Map<string, EncryptedVariable>;
+  private variableIndex: number;
+  private functions: ParsedFunction[];
+  private watchers: Map<string, { fragment: EventFragment; listener: Listener }>;
+  private mode: ExecutionMode;
+  private store: HistoryStore;
+  private lines: string[];
+  private sessionCommands: string[];
+  private completion: CompletionContext;
+  private hintListener: (input: string, key?: { name?: string }) => void;
 
   constructor(config: ReplConfig) {
     this.config = config;
@@ -56,6 +273,26 @@ export class FHEVMRepl {
     this.history = [];
     this.historyIndex = 1;
     this.isRunning = false;
+    this.fhevm = new FhevmSession(config.provider);
+    this.variables = new Map();
+    this.variableIndex = 1;
+    this.functions = parseContractAbi(config.abi);
+    this.watchers = new Map();
+    this.mode = config.mode ?? 'direct';
+    this.store = new HistoryStore(config.projectDir, config.network, config.contractName);
+    this.lines = [];
+    this.sessionCommands = [];
+    this.completion = {
+      contract: config.contract,
+      functions: this.functions,
+      signerCount: () => this.config.signers.length,
+      variables: () => [...this.variables.keys()],
+    };
+    this.hintListener = (_input, key) => {
+      if (key?.name !== 'return' && key?.name !== 'enter') {
+        this.renderHint();
+      }
+    };
   }
 
   /**
@@ -64,6 +301,12 @@ export class FHEVMRepl {
   async start(): Promise<void> {
     this.isRunning = true;
 
+    // Restore history from previous sessions
+    const stored = await this.store.load();
+    this.history = stored.entries;
+    this.historyIndex = (stored.entries.at(-1)?.index ?? 0) + 1;
+    this.lines = stored.lines;
+
     // Display welcome message
     await this.displayWelcome();
 
@@ -72,6 +315,19 @@ export class FHEVMRepl {
       input: process.stdin,
       output: process.stdout,
       prompt: this.getPrompt(),
+      history: [...this.lines],
+      historySize: MAX_LINES,
+      removeHistoryDuplicates: true,
+      completer: (line: string) => complete(this.completion, line),
+    });
+
+    // Show the signature of the call being typed
+    process.stdin.on('keypress', this.hintListener);
+
+    // Persist input lines for up-arrow recall in later sessions
+    this.rl.on('history', (lines) => {
+      this.lines = lines;
+      this.persistHistory();
     });
 
     // Handle line input
@@ -84,20 +340,50 @@ export class FHEVMRepl {
     });
 
     // Handle Ctrl+C
-    this.rl.on('SIGINT', () => {
+    this.rl.on('SIGINT', async () => {
       console.log('\n');
-      this.exit();
+      await this.exit();
     });
 
     // Display prompt
     this.rl.prompt();
   }
 
+  /**
+   * Run a script of REPL commands without the interactive prompt
+   * @returns Whether every command and expectation succeeded
+   */
+  async runScript(filePath: string): Promise<boolean> {
+    this.isRunning = true;
+
+    try {
+      await this.loadSession({ type: 'load', expression: filePath });
+
+      console.log('');
+      console.log(chalk.green('✅ ') + chalk.white('Script passed: ') + chalk.gray(filePath));
+      console.log('');
+      return true;
+    } catch (error) {
+      this.displayError(error);
+      return false;
+    } finally {
+      await this.stop();
+    }
+  }
+
   /**
    * Stop the REPL
    */
-  stop(): void {
+  async stop(): Promise<void> {
     this.isRunning = false;
+    for (const name of [...this.watchers.keys()]) {
+      try {
+        await this.stopWatching(name);
+      } catch (error) {
+        this.displayError(error);
+      }
+    }
+    process.stdin.off('keypress', this.hintListener);
     if (this.rl) {
       this.rl.close();
       this.rl = null;
@@ -142,6 +428,7 @@ export class FHEVMRepl {
       chalk.bold('Signer: ') +
         chalk.gray(`${signerAddress.slice(0, 10)}...${signerAddress.slice(-4)}`),
     );
+    console.log(chalk.bold('Mode: ') + chalk.gray(this.mode));
     console.log('');
 
     this.displayFunctions();
@@ -151,37 +438,77 @@ export class FHEVMRepl {
   }
 
   /**
-   * Display available functions
+   * Display available functions, with the signature of each overload
    */
   private displayFunctions(): void {
-    const abi = this.config.contract.interface;
-    const functions = abi.fragments.filter((f: any) => f.type === 'function');
-
-    if (functions.length === 0) {
+    if (this.functions.length === 0) {
       return;
     }
 
-    console.log(chalk.bold('Available functions:'));
+    const overloaded = getOverloadedNames(this.functions);
 
-    functions.forEach((func: any) => {
-      const isView = func.stateMutability === 'view' || func.stateMutability === 'pure';
-      const tag = isView ? chalk.cyan('[read]   ') : chalk.yellow('[mutates]');
+    console.log(chalk.bold('Available functions:'));
 
-      const params = func.inputs
-        .filter((input: any) => input.name !== 'inputProof')
-        .map((input: any) => input.name)
+    for (const fn of this.functions) {
+      const isView = fn.stateMutability === 'view' || fn.stateMutability === 'pure';
+      const tag = isView
+        ? chalk.cyan('[read]   ')
+        : fn.stateMutability === 'payable'
+          ? chalk.green('[payable]')
+          : chalk.yellow('[mutates]');
+
+      const params = fn.inputs
+        .filter((input) => input.name !== 'inputProof')
+        .map((input) => input.name)
         .join(', ');
 
-      const returnType = func.outputs.length > 0
-        ? ` -> ${func.outputs[0].internalType || func.outputs[0].type}`
+      const returnType = fn.outputs.length > 0
+        ? ` -> ${fn.outputs[0].internalType || fn.outputs[0].type}`
         : '';
 
-      console.log(`  ${tag} ${chalk.white(func.name)}(${chalk.gray(params)})${chalk.dim(returnType)}`);
-    });
+      const overload = overloaded.has(fn.name)
+        ? chalk.magenta(`  [overload] ${getDisplaySignature(fn)}`)
+        : '';
+
+      console.log(`  ${tag} ${chalk.white(fn.name)}(${chalk.gray(params)})${chalk.dim(returnType)}${overload}`);
+    }
+
+    if (overloaded.size > 0) {
+      const example = this.functions.find((fn) => overloaded.has(fn.name)) as ParsedFunction;
+      console.log('');
+      console.log(chalk.gray('  Overloads are picked by their arguments, or called by signature:'));
+      console.log(chalk.gray(`  ${getDisplaySignature(example)}(...)`));
+    }
 
     console.log('');
   }
 
+  /**
+   * Draw the signature hint after the cursor, replacing the previous one
+   */
+  private renderHint(): void {
+    if (!this.rl || !process.stdout.isTTY) {
+      return;
+    }
+
+    const { line, cursor } = this.rl;
+    if (cursor !== line.length) {
+      return;
+    }
+
+    clearLine(process.stdout, 1);
+
+    const hint = signatureHint(this.completion, line);
+    const room = process.stdout.columns - line.length - 3;
+    if (!hint || room <= 2) {
+      return;
+    }
+
+    const text = `  ${hint}`.slice(0, room);
+    process.stdout.write(chalk.gray(text));
+    moveCursor(process.stdout, -text.length, 0);
+  }
+
   /**
    * Get current prompt string
    */
@@ -198,13 +525,24 @@ export class FHEVMRepl {
     }
 
     try {
-      const parsed = parseCommand(input);
-      await this.executeCommand(parsed, input);
+      await this.runLine(input);
     } catch (error) {
       this.displayError(error);
     }
   }
 
+  /**
+   * Parse and execute one line, recording it for save
+   */
+  private async runLine(input: string): Promise<void> {
+    const parsed = parseCommand(input);
+    await this.executeCommand(parsed, input);
+
+    if (RECORDED_COMMANDS.has(parsed.type)) {
+      this.sessionCommands.push(input);
+    }
+  }
+
   /**
    * Execute a parsed command
    */
@@ -218,6 +556,26 @@ export class FHEVMRepl {
         await this.handleDecrypt(parsed);
         break;
 
+      case 'encrypt':
+        await this.handleEncrypt(parsed);
+        break;
+
+      case 'estimate':
+        await this.handleEstimate(parsed);
+        break;
+
+      case 'watch':
+        await this.handleWatch(parsed);
+        break;
+
+      case 'unwatch':
+        await this.handleUnwatch(parsed);
+        break;
+
+      case 'batch':
+        await this.handleBatch(parsed);
+        break;
+
       case 'signer':
         await this.switchSigner(parsed);
         break;
@@ -234,10 +592,38 @@ export class FHEVMRepl {
         this.displayHistory(parsed);
         break;
 
+      case 'replay':
+        await this.replayTransaction(parsed);
+        break;
+
+      case 'save':
+        await this.saveSession(parsed);
+        break;
+
+      case 'load':
+        await this.loadSession(parsed);
+        break;
+
+      case 'expect':
+        await this.handleExpect(parsed);
+        break;
+
       case 'network':
         this.displayNetwork();
         break;
 
+      case 'info':
+        await this.displayInfo();
+        break;
+
+      case 'fhe':
+        await this.displayFhe();
+        break;
+
+      case 'mode':
+        this.switchMode(parsed);
+        break;
+
       case 'help':
         this.displayHelp(parsed.command);
         break;
@@ -248,7 +634,7 @@ export class FHEVMRepl {
         break;
 
       case 'exit':
-        this.exit();
+        await this.exit();
         break;
 
       default:
@@ -265,16 +651,236 @@ export class FHEVMRepl {
     }
 
     const { functionName, args } = parsed;
-    const { contract } = this.config;
+    const func = this.resolveFunction(functionName, args);
+    const value: bigint | undefined = parsed.options?.value;
+    checkValue(func, value);
 
-    // Get function fragment from ABI
-    const func = contract.interface.getFunction(functionName);
-    if (!func) {
-      throw new Error(`Function '${functionName}' not found`);
+    // Pre-encrypted handles and custom wallets can't be passed to a task, so send them directly
+    const forceDirect = this.isCustomSigner() || args.some(isVariableReference);
+    const hasEncryptedInputs = func.inputs.some((input) => input.fhevmInfo?.isExternal);
+
+    if (forceDirect || (this.mode === 'direct' && !(await this.fallBackToTask(hasEncryptedInputs)))) {
+      await this.executeDirect(functionName, args, rawInput, value);
+      return;
     }
 
     // Execute using npx hardhat task
-    await this.executeHardhatTask(functionName, args, rawInput, func);
+    await this.executeHardhatTask(functionName, args, rawInput, func, value);
+  }
+
+  /**
+   * Find the function a call refers to, telling overloads apart by signature or arguments
+   */
+  private resolveFunction(functionName: string, args: any[]): ParsedFunction {
+    // Called by signature: transfer(address,euint64)
+    if (functionName.includes('(')) {
+      const match = this.functions.find(
+        (fn) => getDisplaySignature(fn) === functionName || getFunctionSignature(fn) === functionName,
+      );
+      if (!match) {
+        throw new Error(`Function '${functionName}' not found`);
+      }
+      return match;
+    }
+
+    const overloads = this.functions.filter((fn) => fn.name === functionName);
+    if (overloads.length === 0) {
+      throw new Error(`Function '${functionName}' not found`);
+    }
+    if (overloads.length === 1) {
+      return overloads[0];
+    }
+
+    const matching = overloads.filter((fn) => {
+      const userInputs = fn.inputs.filter((input) => input.name !== 'inputProof');
+      return (
+        userInputs.length === args.length &&
+        userInputs.every((input, index) => acceptsArgument(input, args[index]))
+      );
+    });
+    if (matching.length === 1) {
+      return matching[0];
+    }
+
+    const reason = matching.length === 0 ? 'none of them take' : 'several of them take';
+    const signatures = overloads.map((fn) => `  ${getDisplaySignature(fn)}(...)`).join('\n');
+    throw new Error(
+      `${functionName} is overloaded and ${reason} these arguments, call one by its signature:\n${signatures}`,
+    );
+  }
+
+  /**
+   * Whether a direct call needing FHE must run as a task because the node has no FHEVM mock
+   */
+  private async fallBackToTask(needsFhevm: boolean): Promise<boolean> {
+    if (!needsFhevm || (await this.fhevm.isAvailable())) {
+      return false;
+    }
+
+    console.log(chalk.gray('   FHEVM mock not available, running the Hardhat task instead'));
+    return true;
+  }
+
+  /**
+   * Resolve $variables, encrypt plaintext inputs and fill the input proof
+   */
+  private async prepareCall(
+    functionName: string,
+    args: any[],
+    signer: Signer,
+    value?: bigint
+  ): Promise<PreparedCall> {
+    const parsedFn = this.resolveFunction(functionName, args);
+    const fragment = this.config.contract.interface.getFunction(getFunctionSignature(parsedFn));
+    if (!fragment) {
+      throw new Error(`Function '${functionName}' not found`);
+    }
+    checkValue(parsedFn, value);
+
+    const userInputs = parsedFn.inputs.filter((input) => input.name !== 'inputProof');
+    if (args.length !== userInputs.length) {
+      throw new Error(
+        `${functionName} expects ${userInputs.length} argument${userInputs.length !== 1 ? 's' : ''}, got ${args.length}`,
+      );
+    }
+
+    const signerAddress = await signer.getAddress();
+    const values: any[] = [];
+    const pending: Array<{ position: number; input: EncryptionInput }> = [];
+    let inputProof: string | undefined;
+
+    userInputs.forEach((input, index) => {
+      const arg = args[index];
+
+      // Pre-encrypted handle from encrypt(), all of which must share one input proof
+      if (isVariableReference(arg)) {
+        const variable = this.variables.get(arg.name);
+        if (!variable) {
+          throw new Error(`Unknown variable: $${arg.name}`);
+        }
+        if (variable.userAddress.toLowerCase() !== signerAddress.toLowerCase()) {
+          throw new Error(
+            `$${arg.name} was encrypted for ${variable.userAddress}, switch back to that signer or re-encrypt`,
+          );
+        }
+        if (inputProof !== undefined && inputProof !== variable.inputProof) {
+          throw new Error('All encrypted arguments must come from the same encrypt() call');
+        }
+
+        inputProof = variable.inputProof;
+        values.push(variable.handle);
+        return;
+      }
+
+      // Plaintext for an external encrypted input, encrypted below
+      if (input.fhevmInfo?.isExternal) {
+        pending.push({
+          position: index,
+          input: {
+            fheType: input.fhevmInfo.fhevmTypeName,
+            value: checkEncryptedArg(input, input.fhevmInfo.fhevmTypeName, arg),
+          },
+        });
+        values.push(undefined);
+        return;
+      }
+
+      values.push(unwrapEncrypted(arg));
+    });
+
+    if (pending.length > 0) {
+      if (inputProof !== undefined) {
+        throw new Error('Cannot mix $variables with plaintext values for encrypted inputs');
+      }
+
+      const encrypted = await this.fhevm.encrypt(
+        this.config.contractAddress,
+        signerAddress,
+        pending.map((entry) => entry.input),
+      );
+
+      pending.forEach((entry, index) => {
+        values[entry.position] = encrypted.handles[index];
+      });
+      inputProof = encrypted.inputProof;
+    }
+
+    // Re-insert inputProof at its ABI position
+    let valueIndex = 0;
+    const callArgs = parsedFn.inputs.map((input) =>
+      input.name === 'inputProof' ? inputProof : values[valueIndex++],
+    );
+
+    // Ether sent along with payable calls goes in the overrides
+    if (value !== undefined) {
+      callArgs.push({ value });
+    }
+
+    return {
+      fragment,
+      callArgs,
+      isView: parsedFn.stateMutability === 'view' || parsedFn.stateMutability === 'pure',
+    };
+  }
+
+  /**
+   * Execute a function call through the connected ethers contract
+   */
+  private async executeDirect(
+    functionName: string,
+    args: any[],
+    rawInput: string,
+    value?: bigint
+  ): Promise<void> {
+    const signer = this.config.signers[this.config.currentSignerIndex];
+    const outcome = await this.runCall(functionName, args, signer, value);
+
+    console.log('');
+
+    if (outcome.txHash === undefined) {
+      console.log(chalk.green('✅ ') + chalk.bold(functionName));
+      console.log(chalk.gray(`   Result: ${outcome.result}`));
+    } else {
+      const { txHash } = outcome;
+      console.log(chalk.green('✅ ') + chalk.bold('Transaction confirmed'));
+      console.log(chalk.gray(`   Tx:    ${txHash.slice(0, 10)}...${txHash.slice(-8)}`));
+      console.log(chalk.gray(`   Block: ${outcome.blockNumber}`));
+      console.log(chalk.gray(`   Gas:   ${outcome.gasUsed?.toString()}`));
+    }
+    console.log('');
+
+    this.addToHistory({ command: rawInput, args, ...outcome });
+  }
+
+  /**
+   * Send a call through the connected contract and wait for the receipt
+   */
+  private async runCall(
+    functionName: string,
+    args: any[],
+    signer: Signer,
+    value?: bigint,
+  ): Promise<CallOutcome> {
+    const { fragment, callArgs, isView } = await this.prepareCall(functionName, args, signer, value);
+
+    const contract = this.config.contract.connect(signer) as Contract;
+    const method = contract.getFunction(fragment.format());
+
+    if (isView) {
+      const result = await method.staticCall(...callArgs);
+      return { functionName, status: 'Success', result };
+    }
+
+    const tx = await method.send(...callArgs);
+    const receipt = await tx.wait();
+
+    return {
+      functionName,
+      txHash: tx.hash,
+      blockNumber: receipt?.blockNumber,
+      gasUsed: receipt?.gasUsed,
+      status: receipt?.status === 1 ? 'Success' : 'Failed',
+    };
   }
 
   /**
@@ -284,22 +890,32 @@ export class FHEVMRepl {
     functionName: string,
     args: any[],
     rawInput: string,
-    func: any
+    func: ParsedFunction,
+    value?: bigint
   ): Promise<void> {
     // Build task name
-    const taskName = `${this.config.contractName.toLowerCase()}:${functionName}`;
+    const taskName = getTaskName(this.config.contractName, func, this.functions);
 
     // Build command arguments
     const cmdArgs = ['hardhat', taskName];
 
     // Add function parameters
-    func.inputs.forEach((input: any, index: number) => {
+    func.inputs.forEach((input, index) => {
       if (input.name && input.name !== 'inputProof' && index < args.length) {
         const paramName = input.name.toLowerCase();
-        cmdArgs.push(`--${paramName}`, String(args[index]));
+        // Encrypted plaintexts are checked here too so bad values fail before Hardhat starts
+        const arg = input.fhevmInfo?.isExternal
+          ? checkEncryptedArg(input, input.fhevmInfo.fhevmTypeName, args[index])
+          : args[index];
+        cmdArgs.push(`--${paramName}`, String(arg));
       }
     });
 
+    // Add ether sent with payable calls, in wei
+    if (value !== undefined) {
+      cmdArgs.push(`--${getValueParamName(func)}`, value.toString());
+    }
+
     // Add network
     cmdArgs.push('--network', this.config.network);
 
@@ -339,21 +955,39 @@ export class FHEVMRepl {
       throw new Error('Missing expression to decrypt');
     }
 
+    // Raw handle, e.g. one printed by a previous call
+    if (/^0x[0-9a-fA-F]{64}$/.test(parsed.expression)) {
+      const handle = parsed.expression;
+      await this.decryptHandle(`${handle.slice(0, 10)}...${handle.slice(-8)}`, handle);
+      return;
+    }
+
     // Parse function name from decrypt expression
     let functionName: string;
+    let funcParsed: ParsedCommand;
 
     if (parsed.expression.includes('(')) {
-      const funcParsed = parseCommand(parsed.expression);
+      funcParsed = parseCommand(parsed.expression);
       if (funcParsed.type !== 'function_call') {
         throw new Error('Invalid decrypt expression');
       }
       functionName = funcParsed.functionName!;
     } else {
-      throw new Error('Decrypt requires a function call, e.g., decrypt(getCount())');
+      throw new Error('Decrypt requires a function call or handle, e.g., decrypt(getCount())');
+    }
+
+    // Tasks decrypt as the node's first account, so custom wallets always decrypt in-process
+    if (this.isCustomSigner() || (this.mode === 'direct' && !(await this.fallBackToTask(true)))) {
+      await this.decryptDirect(functionName, funcParsed.args ?? []);
+      return;
     }
 
     // Build decrypt task name
-    const decryptTaskName = `${this.config.contractName.toLowerCase()}:decrypt-${functionName}`;
+    const decryptTaskName = getDecryptTaskName(
+      this.config.contractName,
+      this.resolveFunction(functionName, funcParsed.args ?? []),
+      this.functions,
+    );
 
     // Build command arguments
     const cmdArgs = ['hardhat', decryptTaskName, '--network', this.config.network];
@@ -382,32 +1016,555 @@ export class FHEVMRepl {
   }
 
   /**
-   * Switch to a different signer
+   * Read a handle with the current signer and decrypt it in-process
    */
-  private async switchSigner(parsed: ParsedCommand): Promise<void> {
-    if (parsed.index !== undefined) {
-      // Switch by index
-      if (parsed.index < 0 || parsed.index >= this.config.signers.length) {
-        throw new Error(`Signer index out of range (0-${this.config.signers.length - 1})`);
-      }
+  private async decryptDirect(functionName: string, args: any[]): Promise<void> {
+    const handle = await this.readHandle(functionName, args);
+    await this.decryptHandle(functionName, handle);
+  }
 
-      this.config.currentSignerIndex = parsed.index;
-      const signer = this.config.signers[parsed.index];
-      const signerAddress = await signer.getAddress();
+  /**
+   * Call a view function that returns an encrypted handle
+   */
+  private async readHandle(functionName: string, args: any[]): Promise<string> {
+    const signer = this.config.signers[this.config.currentSignerIndex];
+    const outcome = await this.runCall(functionName, args, signer);
 
-      console.log('');
-      console.log(
-        chalk.green('✅ ') +
-          chalk.white(`Switched to signer ${parsed.index}: `) +
+    if (outcome.txHash !== undefined || typeof outcome.result !== 'string') {
+      throw new Error(`${functionName} does not return an encrypted handle`);
+    }
+
+    return outcome.result;
+  }
+
+  /**
+   * User-decrypt a handle of the connected contract as the current signer
+   */
+  private async decryptHandle(label: string, handle: string): Promise<void> {
+    const signer = this.config.signers[this.config.currentSignerIndex];
+    const value = await this.fhevm.userDecrypt(this.config.contractAddress, handle, signer);
+
+    console.log('');
+    console.log(chalk.green('✅ ') + chalk.bold(`${label} (decrypted)`));
+    console.log(chalk.gray(`   Value: ${value}`));
+    console.log('');
+  }
+
+  /**
+   * Handle expect command: expect decrypt(getCount()) == 5
+   */
+  private async handleExpect(parsed: ParsedCommand): Promise<void> {
+    const { command, operator, expected } = parsed.options ?? {};
+    const actual = await this.evaluate(command);
+
+    if (!compareValues(actual, operator, expected)) {
+      throw new Error(
+        `Expectation failed: ${parsed.expression} is ${actual}, expected ${operator} ${expected}`,
+      );
+    }
+
+    console.log(
+      chalk.green('✅ ') + chalk.white(`${parsed.expression} ${operator} ${expected}`),
+    );
+  }
+
+  /**
+   * Compute the value of a decrypt or view call without printing it
+   */
+  private async evaluate(command: ParsedCommand): Promise<any> {
+    if (command.type === 'decrypt' && command.expression) {
+      const signer = this.config.signers[this.config.currentSignerIndex];
+      const { expression } = command;
+      const handle = /^0x[0-9a-fA-F]{64}$/.test(expression)
+        ? expression
+        : await this.readCallHandle(expression);
+
+      return this.fhevm.userDecrypt(this.config.contractAddress, handle, signer);
+    }
+
+    if (command.type === 'function_call' && command.functionName) {
+      const signer = this.config.signers[this.config.currentSignerIndex];
+      const outcome = await this.runCall(command.functionName, command.args ?? [], signer);
+      if (outcome.txHash !== undefined) {
+        throw new Error(`expect needs a view function, ${command.functionName} sends a transaction`);
+      }
+      return outcome.result;
+    }
+
+    throw new Error('expect works with decrypt(...) or a view function call');
+  }
+
+  /**
+   * Read the handle returned by a function call expression such as getCount()
+   */
+  private async readCallHandle(expression: string): Promise<string> {
+    const call = parseCommand(expression);
+    if (call.type !== 'function_call' || !call.functionName) {
+      throw new Error('Invalid decrypt expression');
+    }
+    return this.readHandle(call.functionName, call.args ?? []);
+  }
+
+  /**
+   * Handle encrypt command: encrypt(value[, type])
+   */
+  private async handleEncrypt(parsed: ParsedCommand): Promise<void> {
+    if (!parsed.args || parsed.args.length === 0) {
+      throw new Error('Missing value to encrypt, e.g., encrypt(42, euint32)');
+    }
+
+    const [value, typeName] = parsed.args;
+    const fheType = typeName === undefined ? inferFheType(value) : parseFheType(String(typeName));
+
+    const signer = this.config.signers[this.config.currentSignerIndex];
+    const userAddress = await signer.getAddress();
+    const { contractAddress } = this.config;
+
+    const { handles, inputProof } = await this.fhevm.encrypt(contractAddress, userAddress, [
+      { fheType, value },
+    ]);
+
+    const name = parsed.variable ?? `enc${this.variableIndex++}`;
+    this.variables.set(name, {
+      name,
+      fheType,
+      value,
+      handle: handles[0],
+      inputProof,
+      contractAddress,
+      userAddress,
+    });
+
+    console.log('');
+    console.log(
+      chalk.green('✅ ') +
+        chalk.white(`Encrypted ${value} as ${fheType} → `) +
+        chalk.cyan(`$${name}`),
+    );
+    console.log(chalk.gray(`   Handle: ${handles[0]}`));
+    console.log(chalk.gray(`   Proof:  ${inputProof.slice(0, 18)}... (${(inputProof.length - 2) / 2} bytes)`));
+    console.log(chalk.gray(`   Use it: myFunction($${name})`));
+    console.log('');
+  }
+
+  /**
+   * Handle estimate command: estimate(functionName(args))
+   */
+  private async handleEstimate(parsed: ParsedCommand): Promise<void> {
+    const inner: ParsedCommand | undefined = parsed.options?.command;
+    if (!inner || inner.type !== 'function_call' || !inner.functionName) {
+      throw new Error('Estimate requires a function call, e.g., estimate(increment(5))');
+    }
+
+    const signer = this.config.signers[this.config.currentSignerIndex];
+    const { fragment, callArgs } = await this.prepareCall(
+      inner.functionName,
+      inner.args ?? [],
+      signer,
+      inner.options?.value,
+    );
+
+    const contract = this.config.contract.connect(signer) as Contract;
+
+    let gas: bigint;
+    try {
+      gas = await contract.getFunction(fragment.format()).estimateGas(...callArgs);
+    } catch (error: any) {
+      throw new Error(`Gas estimation failed: ${error?.shortMessage || error?.message || error}`);
+    }
+
+    const feeData = await this.config.provider.getFeeData();
+    const gasPrice = feeData.gasPrice ?? feeData.maxFeePerGas ?? 0n;
+    const cost = gas * gasPrice;
+
+    console.log('');
+    console.log(chalk.green('✅ ') + chalk.bold(`Estimate: ${fragment.name}`));
+    console.log(chalk.gray(`   Gas:       ${gas.toString()} units`));
+    console.log(chalk.gray(`   Gas price: ${formatUnits(gasPrice, 'gwei')} gwei`));
+    console.log(chalk.gray(`   Cost:      ${formatEther(cost)} ETH`));
+    console.log('');
+  }
+
+  /**
+   * Handle batch command: run statements in order, stopping at the first failure
+   */
+  private async handleBatch(parsed: ParsedCommand): Promise<void> {
+    const commands: ParsedCommand[] = parsed.options?.commands ?? [];
+    const statements: string[] = parsed.options?.statements ?? [];
+
+    if (commands.length === 0) {
+      throw new Error('Empty batch, e.g., batch { bid(100); reveal() }');
+    }
+
+    const allowed = ['function_call', 'encrypt', 'signer'];
+    const invalid = commands.findIndex((cmd) => !allowed.includes(cmd.type));
+    if (invalid >= 0) {
+      throw new Error(
+        `Only function calls, encrypt() and signer() can be batched: ${statements[invalid]}`,
+      );
+    }
+
+    // Snapshot local nodes so a failed batch leaves no partial state behind
+    const snapshotId = await this.takeSnapshot();
+    // The signer and $variables the batch changes are rolled back with the chain
+    const saved = {
+      signerIndex: this.config.currentSignerIndex,
+      signerCount: this.config.signers.length,
+      variables: new Map(this.variables),
+      variableIndex: this.variableIndex,
+    };
+
+    const rows: Array<{ statement: string; outcome?: CallOutcome; status: string }> = [];
+    let failure: string | null = null;
+
+    for (let index = 0; index < commands.length; index++) {
+      const command = commands[index];
+      const statement = statements[index];
+
+      if (failure) {
+        rows.push({ statement, status: 'Skipped' });
+        continue;
+      }
+
+      try {
+        if (command.type === 'function_call' && command.functionName) {
+          // All calls run in this process and share the REPL's FHEVM session
+          const signer = this.config.signers[this.config.currentSignerIndex];
+          const outcome = await this.runCall(
+            command.functionName,
+            command.args ?? [],
+            signer,
+            command.options?.value,
+          );
+          rows.push({ statement, outcome, status: outcome.status });
+
+          if (outcome.status !== 'Success') {
+            failure = `${statement} reverted`;
+          }
+        } else {
+          await this.executeCommand(command, statement);
+          rows.push({ statement, status: 'Success' });
+        }
+      } catch (error: any) {
+        rows.push({ statement, status: 'Failed' });
+        failure = `${statement}: ${error?.shortMessage || error?.message || error}`;
+      }
+    }
+
+    this.displayBatchSummary(rows);
+
+    if (failure) {
+      if (snapshotId) {
+        await this.config.provider.send('evm_revert', [snapshotId]);
+        this.config.currentSignerIndex = saved.signerIndex;
+        this.config.signers.splice(saved.signerCount);
+        this.variables = saved.variables;
+        this.variableIndex = saved.variableIndex;
+        console.log(chalk.yellow('↺ Batch rolled back to the state before it started'));
+      } else {
+        console.log(chalk.yellow('⚠ Node does not support snapshots, earlier transactions were kept'));
+      }
+      console.log('');
+      throw new Error(`Batch stopped at ${failure}`);
+    }
+
+    for (const row of rows) {
+      if (row.outcome) {
+        this.addToHistory({ command: row.statement, ...row.outcome });
+      }
+    }
+  }
+
+  /**
+   * Take an EVM snapshot, or return null when the node doesn't support it
+   */
+  private async takeSnapshot(): Promise<string | null> {
+    try {
+      return await this.config.provider.send('evm_snapshot', []);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Display batch results as a table
+   */
+  private displayBatchSummary(
+    rows: Array<{ statement: string; outcome?: CallOutcome; status: string }>,
+  ): void {
+    const statementWidth = Math.max(9, ...rows.map((row) => row.statement.length));
+
+    console.log('');
+    console.log(chalk.bold('Batch summary:'));
+    console.log(
+      chalk.gray(
+        `  #  ${'Statement'.padEnd(statementWidth)}  ${'Tx'.padEnd(21)}  ${'Gas'.padEnd(10)}  Status`,
+      ),
+    );
+
+    rows.forEach((row, index) => {
+      const txHash = row.outcome?.txHash;
+      const tx = txHash ? `${txHash.slice(0, 10)}...${txHash.slice(-8)}` : '-';
+      const gas = row.outcome?.gasUsed?.toString() ?? '-';
+      const status =
+        row.status === 'Success'
+          ? chalk.green('✅ Success')
+          : row.status === 'Skipped'
+            ? chalk.gray('○ Skipped')
+            : chalk.red('✗ Failed');
+
+      console.log(
+        `  ${String(index + 1).padEnd(2)} ${chalk.white(row.statement.padEnd(statementWidth))}  ${chalk.gray(tx.padEnd(21))}  ${chalk.gray(gas.padEnd(10))}  ${status}`,
+      );
+    });
+
+    console.log('');
+  }
+
+  /**
+   * Handle watch command: subscribe to a contract event
+   */
+  private async handleWatch(parsed: ParsedCommand): Promise<void> {
+    if (!parsed.expression) {
+      this.displayWatchers();
+      return;
+    }
+
+    const eventName = parsed.expression.trim();
+    const { contract } = this.config;
+
+    let fragment: EventFragment | null = null;
+    try {
+      fragment = contract.interface.getEvent(eventName);
+    } catch {
+      // Ambiguous or malformed names are reported below
+    }
+    if (!fragment) {
+      const available = contract.interface.fragments
+        .filter((f) => f.type === 'event')
+        .map((f) => (f as EventFragment).name);
+      throw new Error(
+        `Event '${eventName}' not found${available.length > 0 ? ` (available: ${available.join(', ')})` : ''}`,
+      );
+    }
+
+    if (this.watchers.has(fragment.name)) {
+      throw new Error(`Already watching ${fragment.name}`);
+    }
+
+    const eventFragment = fragment;
+    const labels = this.getEncryptedEventFields(eventFragment);
+    const listener: Listener = (...eventArgs: any[]) => {
+      const payload = eventArgs[eventArgs.length - 1] as ContractEventPayload;
+      this.printEvent(eventFragment, eventArgs.slice(0, -1), labels, payload);
+    };
+
+    await contract.on(eventFragment.format(), listener);
+    this.watchers.set(eventFragment.name, { fragment: eventFragment, listener });
+
+    console.log('');
+    console.log(
+      chalk.green('✅ ') +
+        chalk.white(`Watching ${eventFragment.name}`) +
+        chalk.gray(`  (unwatch ${eventFragment.name} to stop)`),
+    );
+    console.log('');
+  }
+
+  /**
+   * Handle unwatch command: stop one or all subscriptions
+   */
+  private async handleUnwatch(parsed: ParsedCommand): Promise<void> {
+    const names = parsed.expression ? [parsed.expression.trim()] : [...this.watchers.keys()];
+
+    if (names.length === 0) {
+      console.log('');
+      console.log(chalk.gray('No active event subscriptions'));
+      console.log('');
+      return;
+    }
+
+    for (const name of names) {
+      if (!this.watchers.has(name)) {
+        throw new Error(`Not watching ${name}`);
+      }
+      await this.stopWatching(name);
+    }
+
+    console.log('');
+    console.log(chalk.green('✅ ') + chalk.white(`Stopped watching ${names.join(', ')}`));
+    console.log('');
+  }
+
+  /**
+   * Remove an event listener from the contract, keeping it listed if removal fails
+   */
+  private async stopWatching(name: string): Promise<void> {
+    const watcher = this.watchers.get(name);
+    if (!watcher) {
+      return;
+    }
+
+    try {
+      await this.config.contract.off(watcher.fragment.format(), watcher.listener);
+    } catch (error: any) {
+      throw new Error(
+        `Could not stop watching ${name}: ${error?.shortMessage || error?.message || error}`,
+      );
+    }
+    this.watchers.delete(name);
+  }
+
+  /**
+   * List active event subscriptions
+   */
+  private displayWatchers(): void {
+    console.log('');
+
+    if (this.watchers.size === 0) {
+      console.log(chalk.gray('No active event subscriptions'));
+      console.log(chalk.gray('Usage: watch <EventName>'));
+      console.log('');
+      return;
+    }
+
+    console.log(chalk.bold('Watching:'));
+    for (const { fragment } of this.watchers.values()) {
+      console.log(`  ${chalk.green('●')} ${chalk.white(fragment.format('sighash'))}`);
+    }
+    console.log('');
+  }
+
+  /**
+   * Find encrypted handle fields of an event from the raw ABI
+   */
+  private getEncryptedEventFields(fragment: EventFragment): Array<string | null> {
+    const abiEvent = this.config.abi.find(
+      (item) =>
+        item.type === 'event' &&
+        item.name === fragment.name &&
+        item.inputs.length === fragment.inputs.length,
+    );
+
+    return fragment.inputs.map((_, index) => {
+      const input = abiEvent?.type === 'event' ? abiEvent.inputs[index] : undefined;
+      const fhevmInfo = detectFHEVMType(input?.internalType);
+      return fhevmInfo ? fhevmInfo.fhevmTypeName : null;
+    });
+  }
+
+  /**
+   * Print a decoded event between prompts
+   */
+  private printEvent(
+    fragment: EventFragment,
+    values: any[],
+    labels: Array<string | null>,
+    payload: ContractEventPayload,
+  ): void {
+    const { blockNumber, transactionHash } = payload.log;
+    const names = fragment.inputs.map((input, index) => input.name || `arg${index}`);
+    const width = Math.max(...names.map((name) => name.length), 0) + 1;
+
+    const lines = [
+      '',
+      chalk.magenta('◆ ') +
+        chalk.bold(fragment.name) +
+        chalk.gray(`  block ${blockNumber}  tx ${transactionHash.slice(0, 10)}...`),
+    ];
+
+    names.forEach((name, index) => {
+      const label = labels[index] ? chalk.magenta(` [encrypted ${labels[index]}]`) : '';
+      lines.push(chalk.gray(`   ${`${name}:`.padEnd(width)} ${values[index]}`) + label);
+    });
+    lines.push('');
+
+    this.printAsync(lines);
+  }
+
+  /**
+   * Print output that arrives while the prompt is waiting for input
+   */
+  private printAsync(lines: string[]): void {
+    if (this.rl) {
+      clearLine(process.stdout, 0);
+      cursorTo(process.stdout, 0);
+    }
+
+    for (const line of lines) {
+      console.log(line);
+    }
+
+    if (this.rl) {
+      this.rl.prompt(true);
+    }
+  }
+
+  /**
+   * Switch to a different signer
+   */
+  private async switchSigner(parsed: ParsedCommand): Promise<void> {
+    if (parsed.index !== undefined) {
+      // Switch by index
+      if (parsed.index < 0 || parsed.index >= this.config.signers.length) {
+        throw new Error(`Signer index out of range (0-${this.config.signers.length - 1})`);
+      }
+
+      this.config.currentSignerIndex = parsed.index;
+      const signer = this.config.signers[parsed.index];
+      const signerAddress = await signer.getAddress();
+
+      console.log('');
+      console.log(
+        chalk.green('✅ ') +
+          chalk.white(`Switched to signer ${parsed.index}: `) +
           chalk.gray(signerAddress),
       );
       console.log('');
     } else if (parsed.options?.privateKey) {
-      // TODO: Support custom private key
-      throw new Error('Custom private key not yet supported');
+      const index = this.addWallet(String(parsed.options.privateKey));
+      this.config.currentSignerIndex = index;
+      const signerAddress = await this.config.signers[index].getAddress();
+
+      console.log('');
+      console.log(
+        chalk.green('✅ ') +
+          chalk.white(`Switched to custom signer ${index}: `) +
+          chalk.gray(signerAddress),
+      );
+      console.log('');
     }
   }
 
+  /**
+   * Add a wallet for a private key to the signer list, returning its index
+   */
+  private addWallet(privateKey: string): number {
+    let wallet: Wallet;
+    try {
+      wallet = new Wallet(privateKey, this.config.provider);
+    } catch {
+      throw new Error('Invalid private key');
+    }
+
+    const existing = this.config.signers.findIndex(
+      (signer) => signer instanceof Wallet && signer.address === wallet.address,
+    );
+    if (existing !== -1) {
+      return existing;
+    }
+
+    this.config.signers.push(wallet);
+    return this.config.signers.length - 1;
+  }
+
+  /**
+   * Whether the current signer is a wallet added from a private key
+   */
+  private isCustomSigner(): boolean {
+    return this.config.signers[this.config.currentSignerIndex] instanceof Wallet;
+  }
+
   /**
    * List available signers
    */
@@ -418,12 +1575,14 @@ export class FHEVMRepl {
     for (let index = 0; index < this.config.signers.length; index++) {
       const signer = this.config.signers[index];
       const signerAddress = await signer.getAddress();
+      const balance = await this.config.provider.getBalance(signerAddress);
       const isCurrent = index === this.config.currentSignerIndex;
       const marker = isCurrent ? chalk.green('●') : chalk.gray('○');
+      const custom = signer instanceof Wallet ? chalk.yellow(' [custom]') : '';
       const suffix = isCurrent ? chalk.green(' [current]') : '';
 
       console.log(
-        `  ${marker} ${index}. ${chalk.white(signerAddress)} ${chalk.gray('(10000 ETH)')}${suffix}`,
+        `  ${marker} ${index}. ${chalk.white(signerAddress)} ${chalk.gray(`(${formatEther(balance)} ETH)`)}${custom}${suffix}`,
       );
     }
 
@@ -436,6 +1595,7 @@ export class FHEVMRepl {
   private displayHistory(parsed: ParsedCommand): void {
     if (parsed.options?.clear) {
       this.history = [];
+      this.persistHistory();
       console.log('');
       console.log(chalk.green('✅ ') + 'History cleared');
       console.log('');
@@ -489,7 +1649,61 @@ export class FHEVMRepl {
     console.log('');
 
     // Re-execute the command
-    await this.handleInput(entry.command);
+    await this.runLine(entry.command);
+  }
+
+  /**
+   * Write the commands run in this session to a script file
+   */
+  private async saveSession(parsed: ParsedCommand): Promise<void> {
+    if (!parsed.expression) {
+      throw new Error('Missing session file, e.g., save session.zc');
+    }
+
+    const filePath = path.resolve(parsed.expression);
+    const { contractName, contractAddress, network } = this.config;
+
+    const header = [
+      `# ZCraft session for ${contractName} (${contractAddress}) on ${network}`,
+      `# Saved ${new Date().toISOString()}`,
+    ];
+    await writeFile(filePath, [...header, ...this.sessionCommands, ''].join('\n'));
+
+    console.log('');
+    console.log(
+      chalk.green('✅ ') +
+        chalk.white(`Saved ${this.sessionCommands.length} commands to `) +
+        chalk.gray(filePath),
+    );
+    console.log('');
+  }
+
+  /**
+   * Run the commands of a saved session file, stopping at the first failure
+   */
+  private async loadSession(parsed: ParsedCommand): Promise<void> {
+    if (!parsed.expression) {
+      throw new Error('Missing session file, e.g., load session.zc');
+    }
+
+    const filePath = path.resolve(parsed.expression);
+    const content = await readFile(filePath, 'utf-8');
+    const lines = content.split('\n');
+
+    for (let index = 0; index < lines.length; index++) {
+      const line = lines[index].trim();
+      if (!line || line.startsWith('#')) {
+        continue;
+      }
+
+      console.log(chalk.gray(`◇  ${line}`));
+
+      try {
+        await this.runLine(line);
+      } catch (error: any) {
+        throw new Error(`${path.basename(filePath)}:${index + 1}: ${error?.message || error}`);
+      }
+    }
   }
 
   /**
@@ -503,6 +1717,125 @@ export class FHEVMRepl {
     console.log('');
   }
 
+  /**
+   * Display contract metadata
+   */
+  private async displayInfo(): Promise<void> {
+    const { contractName, contractAddress, provider } = this.config;
+
+    const code = await provider.getCode(contractAddress);
+    const bytecodeSize = (code.length - 2) / 2;
+    const deployer = await this.findDeployer();
+
+    console.log('');
+    console.log(chalk.bold('Contract:'));
+    console.log(`  Name:          ${chalk.white(contractName)}`);
+    console.log(`  Address:       ${chalk.white(contractAddress)}`);
+    console.log(`  Deployer:      ${deployer ? chalk.white(deployer) : chalk.gray('unknown')}`);
+    console.log(
+      `  Bytecode size: ${bytecodeSize > 0 ? `${bytecodeSize} bytes` : chalk.red('no code at address')}`,
+    );
+    console.log(`  Functions:     ${this.functions.length}`);
+    console.log('');
+
+    const encrypted = this.functions.filter(
+      (fn) => fn.inputs.some((input) => input.fhevmInfo) || fn.outputs.some((output) => output.fhevmInfo),
+    );
+
+    if (encrypted.length === 0) {
+      console.log(chalk.gray('No encrypted functions'));
+      console.log('');
+      return;
+    }
+
+    console.log(chalk.bold('Encrypted functions:'));
+    for (const fn of encrypted) {
+      const inputs = fn.inputs
+        .filter((input) => input.fhevmInfo)
+        .map((input) => `${input.name || 'arg'}: ${input.fhevmInfo?.solType}`);
+      const outputs = fn.outputs
+        .filter((output) => output.fhevmInfo)
+        .map((output) => output.fhevmInfo?.solType);
+
+      const icon = inputs.length > 0 ? '🔐' : '🔒';
+      const returns = outputs.length > 0 ? chalk.dim(` -> ${outputs.join(', ')}`) : '';
+      console.log(`  ${icon} ${chalk.white(fn.name)}(${chalk.gray(inputs.join(', '))})${returns}`);
+    }
+    console.log('');
+  }
+
+  /**
+   * Look up the deployer from the hardhat-deploy deployment file
+   */
+  private async findDeployer(): Promise<string | null> {
+    const { projectDir, network, contractName, provider } = this.config;
+    const deploymentPath = path.join(projectDir, 'deployments', network, `${contractName}.json`);
+
+    try {
+      const deployment = JSON.parse(await readFile(deploymentPath, 'utf-8'));
+
+      if (deployment.receipt?.from) {
+        return deployment.receipt.from;
+      }
+      if (deployment.transactionHash) {
+        const tx = await provider.getTransaction(deployment.transactionHash);
+        return tx?.from ?? null;
+      }
+    } catch {
+      // No deployment file for this contract
+    }
+
+    return null;
+  }
+
+  /**
+   * Display FHEVM infrastructure addresses of the connected node
+   */
+  private async displayFhe(): Promise<void> {
+    console.log('');
+    console.log(chalk.bold('FHEVM:'));
+
+    let metadata: FhevmMetadata;
+    try {
+      metadata = await this.fhevm.getMetadata();
+    } catch {
+      console.log(`  Mock:              ${chalk.yellow('no')}`);
+      console.log(chalk.gray('  The node does not expose FHEVM relayer metadata'));
+      console.log('');
+      return;
+    }
+
+    console.log(`  Mock:              ${chalk.green('yes')} ${chalk.gray(`(plugin ${metadata.version})`)}`);
+    console.log(`  Coprocessor:       ${chalk.white(metadata.CoprocessorAddress)}`);
+    console.log(`  ACL:               ${chalk.white(metadata.ACLAddress)}`);
+    console.log(`  KMS verifier:      ${chalk.white(metadata.KMSVerifierAddress)}`);
+    console.log(`  Input verifier:    ${chalk.white(metadata.InputVerifierAddress)}`);
+    console.log(`  Decryption oracle: ${chalk.white(metadata.DecryptionOracleAddress)}`);
+    console.log(`  Gateway chain ID:  ${metadata.gatewayChainId}`);
+    console.log('');
+  }
+
+  /**
+   * Toggle or set the execution mode
+   */
+  private switchMode(parsed: ParsedCommand): void {
+    if (parsed.expression && parsed.expression !== 'task' && parsed.expression !== 'direct') {
+      throw new Error(`Unknown mode: ${parsed.expression} (expected 'task' or 'direct')`);
+    }
+
+    const target = parsed.expression as ExecutionMode | undefined;
+    this.mode = target ?? (this.mode === 'task' ? 'direct' : 'task');
+
+    const description =
+      this.mode === 'task'
+        ? 'function calls run generated Hardhat tasks'
+        : 'function calls are sent in-process with ethers';
+
+    console.log('');
+    console.log(chalk.green('✅ ') + chalk.white(`Mode: ${this.mode}`) + chalk.gray(` (${description})`));
+    console.log('');
+  }
+
   /**
    * Display help
    */
@@ -520,25 +1853,46 @@ export class FHEVMRepl {
 
     console.log(chalk.cyan('FUNCTION CALLS:'));
     console.log('  functionName(arg1, arg2)     Call contract function');
-    console.log('  encrypt(value)               Encrypt plaintext value');
+    console.log('  name(type1,type2)(a, b)      Call an overload by its signature');
+    console.log('  name{value: 1 ether}(args)   Send ether to a payable function');
+    console.log('  encrypt(value, type)         Encrypt plaintext value into $variable');
     console.log('  decrypt(handle)              Decrypt encrypted handle');
     console.log('');
 
+    console.log(chalk.cyan('BATCH:'));
+    console.log('  batch { a(); b() }           Run calls in order, roll back on failure');
+    console.log('');
+
+    console.log(chalk.cyan('GAS:'));
+    console.log('  estimate(functionName(args)) Estimate gas and cost of a call');
+    console.log('');
+
+    console.log(chalk.cyan('EVENTS:'));
+    console.log('  watch EventName              Stream decoded events as they happen');
+    console.log('  unwatch [EventName]          Stop one or all subscriptions');
+    console.log('  watch                        List active subscriptions');
+    console.log('');
+
     console.log(chalk.cyan('SIGNERS:'));
     console.log('  signer(index)                Switch to signer at index');
+    console.log('  signer("0x...")              Add and switch to a private key wallet');
     console.log('  signers                      List all available signers');
     console.log('');
 
     console.log(chalk.cyan('INTROSPECTION:'));
     console.log('  functions                    List all contract functions');
     console.log('  info                         Show contract information');
-    console.log('  fhe                          Analyze FHE operations');
+    console.log('  fhe                          Show FHEVM coprocessor, ACL and KMS');
+    console.log('  mode [task|direct]           Toggle how function calls are executed');
     console.log('');
 
     console.log(chalk.cyan('HISTORY:'));
     console.log('  history                      Show transaction history');
     console.log('  history clear                Clear history');
     console.log('  replay(index)                Replay transaction');
+    console.log('  save <file>                  Save this session as a script');
+    console.log('  load <file>                  Run the commands in a session script');
+    console.log('  expect <call> <op> <value>   Assert a view or decrypted result');
     console.log('');
 
     console.log(chalk.cyan('UTILITY:'));
@@ -555,7 +1909,8 @@ export class FHEVMRepl {
     const helps: Record<string, string> = {
       decrypt: `decrypt(handle, options)
 
-Decrypt an encrypted handle via Gateway or mock mode.
+Decrypt an encrypted handle in-process as the current signer. In task mode,
+function results are decrypted by the generated decrypt task instead.
 
 Examples:
   decrypt(encryptedValue())
@@ -565,13 +1920,57 @@ Examples:
 Options:
   signer: <index>     Use specific signer (default: current)`,
 
-      encrypt: `encrypt(value)
+      expect: `expect <expression> <operator> <value>
+
+Fail unless a view call or decrypted value matches. Decryption always runs
+in-process as the current signer. Operators: == != >= <= > <
 
-Encrypt a plaintext value for use in function calls.
+Examples:
+  expect decrypt(getCount()) == 5
+  expect owner() == 0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266
+  expect totalSupply() >= 1000`,
+
+      batch: `batch { statement; statement; ... }
+
+Run function calls in order with the current signer. Execution stops at the
+first failure; on local nodes the whole batch is rolled back with an EVM
+snapshot. A summary table of tx hashes, gas and status is printed.
+
+Examples:
+  batch { bid(100); bid(150) }
+  batch { signer(1); bid(200); signer(0); reveal() }`,
+
+      watch: `watch EventName
+
+Subscribe to a contract event. Decoded arguments are printed as events
+arrive; fields holding encrypted handles are labelled with their type.
+
+Examples:
+  watch Transfer
+  watch BidPlaced
+  unwatch Transfer`,
+
+      estimate: `estimate(functionName(args))
+
+Estimate gas for a call without sending it. Encrypted inputs are
+encrypted first, so the estimate includes the FHE verification cost.
 
 Examples:
-  encrypt(5)
-  myFunction(encrypt(10))`,
+  estimate(increment(5))
+  estimate(increment($amount))`,
+
+      encrypt: `encrypt(value, type)
+
+Encrypt a plaintext value for the current signer and this contract.
+The handle and input proof are stored in a REPL variable.
+
+Examples:
+  encrypt(5)                  Stored as $enc1 (euint32 by default)
+  amount = encrypt(42, euint64)
+  increment($amount)
+
+Types:
+  ebool, euint8, euint16, euint32, euint64, euint128, euint256, eaddress`,
     };
 
     const helpText = helps[command];
@@ -607,14 +2006,24 @@ Examples:
       timestamp: new Date(),
       ...entry,
     });
+    this.persistHistory();
+  }
+
+  /**
+   * Save history in the background, warning if the project directory isn't writable
+   */
+  private persistHistory(): void {
+    this.store.save({ entries: this.history, lines: this.lines }).catch((error) => {
+      this.printAsync([chalk.gray(`   Could not save history: ${error?.message || error}`)]);
+    });
   }
 
   /**
    * Exit the REPL
    */
-  private exit(): void {
+  private async exit(): Promise<void> {
     console.log(chalk.gray('Goodbye!'));
-    this.stop();
+    await this.stop();
     process.exit(0);
   }
 }
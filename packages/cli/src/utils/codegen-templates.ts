@@ -0,0 +1,102 @@
+import { createHash } from 'node:crypto';
+import { copyFileSync, existsSync, mkdirSync, readdirSync, readFileSync, statSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { getBundledTemplatesDir, listTemplates } from '@zcraft/codegen';
+
+/**
+ * Project template set picked up without a --templates flag
+ */
+export const DEFAULT_TEMPLATE_DIR = path.join('.zcraft', 'templates');
+
+/**
+ * Result of ejecting the bundled templates
+ */
+export interface EjectResult {
+  written: string[];
+  skipped: string[]; // Already in the project, kept without --force
+}
+
+/**
+ * Template set to generate with: the --templates flag, else .zcraft/templates when present
+ */
+export function resolveTemplateDir(projectDir: string, flag?: string): string | undefined {
+  if (flag) {
+    const templateDir = path.resolve(flag);
+    if (!existsSync(templateDir) || !statSync(templateDir).isDirectory()) {
+      throw new Error(`Template directory not found: ${templateDir}`);
+    }
+    return templateDir;
+  }
+
+  const defaultDir = path.join(projectDir, DEFAULT_TEMPLATE_DIR);
+  return existsSync(defaultDir) ? defaultDir : undefined;
+}
+
+/**
+ * Copy the bundled templates into a project template set for editing
+ */
+export function ejectTemplates(templateDir: string, force: boolean): EjectResult {
+  const result: EjectResult = { written: [], skipped: [] };
+  mkdirSync(path.join(templateDir, 'partials'), { recursive: true });
+
+  for (const name of listTemplates()) {
+    const target = path.join(templateDir, `${name}.hbs`);
+    if (existsSync(target) && !force) {
+      result.skipped.push(target);
+      continue;
+    }
+
+    copyFileSync(path.join(getBundledTemplatesDir(), `${name}.hbs`), target);
+    result.written.push(target);
+  }
+
+  return result;
+}
+
+/**
+ * Names of the templates a project set overrides
+ */
+export function listOverrides(templateDir: string): string[] {
+  const bundled = new Set(listTemplates());
+  return readdirSync(templateDir)
+    .filter((file) => file.endsWith('.hbs'))
+    .map((file) => path.basename(file, '.hbs'))
+    .filter((name) => bundled.has(name));
+}
+
+/**
+ * Hash of every file in a template set, so edits regenerate unchanged contracts
+ */
+export function hashTemplateDir(templateDir: string): string {
+  const hash = createHash('sha256');
+
+  const visit = (dir: string) => {
+    for (const entry of readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        visit(entryPath);
+      } else {
+        hash.update(path.relative(templateDir, entryPath));
+        hash.update(readFileSync(entryPath));
+      }
+    }
+  };
+  visit(templateDir);
+
+  return hash.digest('hex');
+}
+
+/**
+ * Hash of the installed codegen version and its bundled templates,
+ * so upgrading zcraft regenerates contracts whose ABI is unchanged
+ */
+export function hashGenerator(): string {
+  const require = createRequire(import.meta.url);
+  const { version } = require('@zcraft/codegen/package.json') as { version: string };
+
+  return createHash('sha256')
+    .update(version)
+    .update(hashTemplateDir(getBundledTemplatesDir()))
+    .digest('hex');
+}
@@ -0,0 +1,284 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import ts from 'typescript';
+
+/**
+ * A planned change to a hardhat.config or tasks barrel file
+ */
+export interface ImportEdit {
+  filePath: string;
+  before: string;
+  after: string;
+  changed: boolean;
+}
+
+/**
+ * A top-level import or require statement
+ */
+interface ModuleStatement {
+  specifier: string;
+  node: ts.Statement;
+  sideEffectOnly: boolean; // Safe to remove: `import "x";` or `require("x");`
+}
+
+/**
+ * Find hardhat.config.ts or hardhat.config.js in the project
+ */
+export function findHardhatConfig(projectDir: string): string | null {
+  for (const configFile of ['hardhat.config.ts', 'hardhat.config.js', 'hardhat.config.cjs']) {
+    const configPath = path.join(projectDir, configFile);
+    if (existsSync(configPath)) {
+      return configPath;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find the tasks barrel file the config imports, such as `import "./tasks";`
+ */
+export function findTasksBarrel(configPath: string, tasksDir: string): string | null {
+  const configDir = path.dirname(configPath);
+  const statements = parseModuleStatements(configPath, readFileSync(configPath, 'utf-8'));
+
+  for (const statement of statements) {
+    if (!statement.specifier.startsWith('.')) {
+      continue;
+    }
+
+    // Either "./tasks" or "./tasks/index"
+    const target = path.resolve(configDir, stripExtension(statement.specifier));
+    const barrel = path.basename(target) === 'index' ? target : path.join(target, 'index');
+    if (path.dirname(barrel) !== path.resolve(tasksDir)) {
+      continue;
+    }
+
+    for (const extension of ['.ts', '.js', '.cjs', '.mjs']) {
+      if (existsSync(barrel + extension)) {
+        return barrel + extension;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Import path of a file relative to the file importing it
+ */
+export function toImportSpecifier(fromFile: string, targetFile: string): string {
+  const specifier = stripExtension(
+    path.relative(path.dirname(fromFile), targetFile).split(path.sep).join('/')
+  );
+  return specifier.startsWith('.') ? specifier : `./${specifier}`;
+}
+
+/**
+ * Plan adding a side-effect import, unless the file already loads that module
+ */
+export function planAddImport(filePath: string, specifier: string): ImportEdit {
+  const before = existsSync(filePath) ? readFileSync(filePath, 'utf-8') : '';
+  const statements = parseModuleStatements(filePath, before);
+
+  if (statements.some((statement) => isSameModule(statement.specifier, specifier))) {
+    return { filePath, before, after: before, changed: false };
+  }
+
+  // CommonJS configs load tasks with require(), everything else with import
+  const usesRequire =
+    statements.length > 0 &&
+    statements.every((statement) => !ts.isImportDeclaration(statement.node));
+  const line = usesRequire || filePath.endsWith('.cjs')
+    ? `require("${specifier}");`
+    : `import "${specifier}";`;
+
+  let after: string;
+  const last = statements[statements.length - 1];
+
+  if (last) {
+    // After the last import or require, even if it spans several lines
+    const end = last.node.getEnd();
+    after = `${before.slice(0, end)}\n${line}${before.slice(end)}`;
+  } else {
+    // Before the first statement, keeping leading comments on top
+    const first = createSourceFile(filePath, before).statements[0];
+    after = first
+      ? `${before.slice(0, first.getStart())}${line}\n\n${before.slice(first.getStart())}`
+      : `${before}${before === '' || before.endsWith('\n') ? '' : '\n'}${line}\n`;
+  }
+
+  return { filePath, before, after, changed: true };
+}
+
+/**
+ * Plan removing the side-effect imports of a module
+ */
+export function planRemoveImport(filePath: string, specifier: string): ImportEdit {
+  const before = readFileSync(filePath, 'utf-8');
+  const matches = parseModuleStatements(filePath, before).filter(
+    (statement) => statement.sideEffectOnly && isSameModule(statement.specifier, specifier)
+  );
+
+  // Remove from the end so earlier positions stay valid
+  let after = before;
+  for (const statement of matches.reverse()) {
+    let start = statement.node.getStart();
+    let end = statement.node.getEnd();
+
+    // Take the whole line when the statement is alone on it
+    const lineStart = after.lastIndexOf('\n', start - 1) + 1;
+    const newline = after.indexOf('\n', end);
+    const lineEnd = newline === -1 ? after.length : newline + 1;
+    if (after.slice(lineStart, start).trim() === '' && after.slice(end, lineEnd).trim() === '') {
+      start = lineStart;
+      end = lineEnd;
+    }
+
+    after = after.slice(0, start) + after.slice(end);
+  }
+
+  return { filePath, before, after, changed: matches.length > 0 };
+}
+
+/**
+ * Write a planned edit
+ */
+export function applyEdit(edit: ImportEdit): void {
+  if (edit.changed) {
+    writeFileSync(edit.filePath, edit.after, 'utf-8');
+  }
+}
+
+/**
+ * Line diff of an edit, with a little context around each change
+ * Lines start with '+', '-' or ' ', and '@@' separates hunks
+ */
+export function formatDiff(edit: ImportEdit, context = 2): string[] {
+  const oldLines = edit.before.split('\n');
+  const newLines = edit.after.split('\n');
+
+  // Longest common subsequence table, configs are small enough for O(n * m)
+  const lengths: number[][] = Array.from({ length: oldLines.length + 1 }, () =>
+    new Array<number>(newLines.length + 1).fill(0)
+  );
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        oldLines[i] === newLines[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length || j < newLines.length) {
+    if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+      lines.push(` ${oldLines[i]}`);
+      i++;
+      j++;
+    } else if (j < newLines.length && (i === oldLines.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      lines.push(`+${newLines[j]}`);
+      j++;
+    } else {
+      lines.push(`-${oldLines[i]}`);
+      i++;
+    }
+  }
+
+  // Keep only the context around changes
+  const keep = lines.map((_, index) =>
+    lines
+      .slice(Math.max(0, index - context), index + context + 1)
+      .some((line) => line.startsWith('+') || line.startsWith('-'))
+  );
+
+  const hunks: string[] = [];
+  keep.forEach((kept, index) => {
+    if (kept) {
+      if (index > 0 && !keep[index - 1] && hunks.length > 0) {
+        hunks.push('@@');
+      }
+      hunks.push(lines[index]);
+    }
+  });
+
+  return hunks;
+}
+
+/**
+ * Parse a config file as TypeScript or JavaScript
+ */
+function createSourceFile(filePath: string, content: string): ts.SourceFile {
+  const scriptKind = filePath.endsWith('.ts') ? ts.ScriptKind.TS : ts.ScriptKind.JS;
+  return ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, scriptKind);
+}
+
+/**
+ * Collect the top-level import and require statements of a file
+ */
+function parseModuleStatements(filePath: string, content: string): ModuleStatement[] {
+  const statements: ModuleStatement[] = [];
+
+  for (const node of createSourceFile(filePath, content).statements) {
+    if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+      statements.push({
+        specifier: node.moduleSpecifier.text,
+        node,
+        sideEffectOnly: node.importClause === undefined,
+      });
+    } else if (ts.isExpressionStatement(node)) {
+      const specifier = getRequireSpecifier(node.expression);
+      if (specifier !== null) {
+        statements.push({ specifier, node, sideEffectOnly: true });
+      }
+    } else if (ts.isVariableStatement(node)) {
+      // const x = require("x");
+      for (const declaration of node.declarationList.declarations) {
+        const specifier = declaration.initializer
+          ? getRequireSpecifier(declaration.initializer)
+          : null;
+        if (specifier !== null) {
+          statements.push({ specifier, node, sideEffectOnly: false });
+          break;
+        }
+      }
+    }
+  }
+
+  return statements;
+}
+
+/**
+ * Module loaded by a `require("x")` call, if the expression is one
+ */
+function getRequireSpecifier(expression: ts.Expression): string | null {
+  if (
+    ts.isCallExpression(expression) &&
+    ts.isIdentifier(expression.expression) &&
+    expression.expression.text === 'require' &&
+    expression.arguments.length === 1 &&
+    ts.isStringLiteral(expression.arguments[0])
+  ) {
+    return expression.arguments[0].text;
+  }
+  return null;
+}
+
+/**
+ * Compare specifiers, ignoring file extensions, index files and redundant path segments
+ */
+function isSameModule(a: string, b: string): boolean {
+  const normalize = (specifier: string) =>
+    path.posix.normalize(stripExtension(specifier)).replace(/\/index$/, '');
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Drop a script file extension from a path or specifier
+ */
+function stripExtension(specifier: string): string {
+  return specifier.replace(/\.(ts|js|cjs|mjs)$/, '');
+}
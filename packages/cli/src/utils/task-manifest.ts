@@ -0,0 +1,109 @@
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+
+/**
+ * What was generated for one contract
+ */
+export interface ManifestEntry {
+  abiHash: string;
+  taskFile: string; // Relative to the project directory
+}
+
+/**
+ * Tracks the ABI each generated task file was built from
+ * Stored in .zcraft/generate/tasks.json so unchanged contracts can be skipped
+ */
+export class TaskManifest {
+  private projectDir: string;
+  private generatorHash: string;
+  private filePath: string;
+  private entries: Record<string, ManifestEntry>;
+
+  /**
+   * @param generatorHash Identifies the codegen version and bundled templates, see hashGenerator
+   */
+  constructor(projectDir: string, generatorHash: string) {
+    this.projectDir = projectDir;
+    this.generatorHash = generatorHash;
+    this.filePath = path.join(projectDir, '.zcraft', 'generate', 'tasks.json');
+    this.entries = this.load();
+  }
+
+  /**
+   * Hash an ABI, independent of the artifact's other fields
+   * The generator hash is included so upgrading codegen regenerates tasks, and with
+   * a project template set its hash is too, so template edits regenerate them
+   */
+  hashAbi(abi: unknown, templateHash?: string): string {
+    const hash = createHash('sha256').update(JSON.stringify(abi)).update(this.generatorHash);
+    if (templateHash) {
+      hash.update(templateHash);
+    }
+    return hash.digest('hex');
+  }
+
+  /**
+   * Whether a contract's task file exists and was built from this ABI
+   */
+  isUpToDate(contractName: string, abiHash: string, taskFile: string): boolean {
+    const entry = this.entries[contractName];
+
+    return (
+      entry !== undefined &&
+      entry.abiHash === abiHash &&
+      entry.taskFile === this.relative(taskFile) &&
+      existsSync(taskFile)
+    );
+  }
+
+  /**
+   * Record a generated task file
+   */
+  set(contractName: string, abiHash: string, taskFile: string): void {
+    this.entries[contractName] = { abiHash, taskFile: this.relative(taskFile) };
+  }
+
+  /**
+   * Forget a contract
+   */
+  remove(contractName: string): void {
+    delete this.entries[contractName];
+  }
+
+  /**
+   * Contracts with generated task files, with absolute task file paths
+   */
+  contracts(): Array<{ name: string; taskFile: string }> {
+    return Object.entries(this.entries).map(([name, entry]) => ({
+      name,
+      taskFile: path.join(this.projectDir, entry.taskFile),
+    }));
+  }
+
+  /**
+   * Write the manifest
+   */
+  save(): void {
+    mkdirSync(path.dirname(this.filePath), { recursive: true });
+    writeFileSync(this.filePath, `${JSON.stringify({ contracts: this.entries }, null, 2)}\n`);
+  }
+
+  /**
+   * Read the manifest, starting empty if none exists or it can't be read
+   */
+  private load(): Record<string, ManifestEntry> {
+    try {
+      return JSON.parse(readFileSync(this.filePath, 'utf-8')).contracts ?? {};
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Path relative to the project directory, as stored
+   */
+  private relative(taskFile: string): string {
+    return path.relative(this.projectDir, taskFile);
+  }
+}
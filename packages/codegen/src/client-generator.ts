@@ -0,0 +1,261 @@
+/**
+ * Client Generator
+ * Generates a typed TypeScript client class from parsed ABI
+ */
+
+import {
+  getFunctionSignature,
+  getMethodName,
+  getOverloadedNames,
+  hasExternalInput,
+} from './parser.js';
+import { getEncryptionMethod, getEncryptionSpec, isJsonParameter } from './encryption.js';
+import { loadTemplate, type TemplateOptions } from './template-loader.js';
+import type { ParsedFunction, ParsedParameter } from './types.js';
+
+/**
+ * Options for the generated client
+ */
+export interface ClientGeneratorOptions extends TemplateOptions {
+  className?: string; // Defaults to <ContractName>Client
+  sdkImport?: string; // Module providing the FhevmInstance type
+}
+
+/**
+ * Generate a typed client class for a contract
+ */
+export function generateClient(
+  contractName: string,
+  functions: ParsedFunction[],
+  options: ClientGeneratorOptions = {}
+): string {
+  const clientTemplate = loadTemplate('client', options.templateDir);
+
+  const overloaded = getOverloadedNames(functions);
+  const methods = functions.map((fn) => generateMethodData(fn, overloaded));
+  const needsJsonHelpers = methods.some((method) => method.spec !== null);
+
+  return clientTemplate({
+    contractName,
+    className: options.className ?? `${contractName}Client`,
+    sdkImport: options.sdkImport ?? '@zama-fhe/relayer-sdk/web',
+    abi: functions.map(formatFunctionAbi),
+    methods,
+    needsJsonHelpers,
+    jsonHelpers: needsJsonHelpers ? loadTemplate('jsonArgs', options.templateDir)({}) : '',
+    hasDecrypt: methods.some((method) => method.decrypt !== null),
+  });
+}
+
+/**
+ * Generate data for one client method
+ */
+function generateMethodData(fn: ParsedFunction, overloaded: Set<string>) {
+  const name = getMethodName(fn, overloaded);
+  const isView = fn.stateMutability === 'view' || fn.stateMutability === 'pure';
+  const userInputs = fn.inputs.filter((input) => input.name !== 'inputProof');
+  const hasExternalInputs = fn.inputs.some(hasExternalInput);
+  const usesSpec = hasExternalInputs && userInputs.some(isJsonParameter);
+
+  const params = userInputs.map((input, index) => ({
+    name: input.name || `arg${index}`,
+    tsType: getInputType(input),
+  }));
+
+  // Encrypt top-level external inputs directly, nested ones through collectEncrypted()
+  const encryptionCalls: Array<{ method: string; value: string }> = [];
+  let callArgs: string[] = [];
+
+  if (usesSpec) {
+    callArgs = ['...args'];
+  } else {
+    let handleIndex = 0;
+    userInputs.forEach((input, index) => {
+      if (input.fhevmInfo?.isExternal) {
+        encryptionCalls.push({
+          method: getEncryptionMethod(input.fhevmInfo.bits),
+          value: params[index].name,
+        });
+        callArgs.push(`encrypted.handles[${handleIndex}]`);
+        handleIndex++;
+      } else {
+        callArgs.push(params[index].name);
+      }
+    });
+  }
+
+  if (hasExternalInputs) {
+    callArgs.push('encrypted.inputProof');
+  }
+
+  // Payable methods take the ether to send after their own parameters
+  const valueParam = fn.stateMutability === 'payable' ? getValueArgName(params) : null;
+  if (valueParam) {
+    callArgs.push(valueParam === 'value' ? '{ value }' : `{ value: ${valueParam} }`);
+  }
+
+  const spec = usesSpec
+    ? JSON.stringify({
+        components: userInputs.map((input) => [input.name, getEncryptionSpec(input)]),
+      })
+    : null;
+
+  return {
+    name,
+    functionName: fn.name,
+    // ethers needs the full signature to pick an overload
+    functionKey: overloaded.has(fn.name) ? getFunctionSignature(fn) : fn.name,
+    signature: formatSignature(fn),
+    params,
+    valueParam,
+    isView,
+    encryptionCalls,
+    spec,
+    callArgs,
+    returnType: isView ? getReturnType(fn) : 'ContractTransactionReceipt | null',
+    decrypt: isView ? getDecryptData(fn, name) : null,
+  };
+}
+
+/**
+ * Name of the wei amount parameter of a payable method, avoiding its other parameters
+ */
+function getValueArgName(params: Array<{ name: string }>): string {
+  return params.some((param) => param.name === 'value') ? 'msgValue' : 'value';
+}
+
+/**
+ * Data for the decryptX() helper of a view returning one encrypted value
+ */
+function getDecryptData(fn: ParsedFunction, methodName: string) {
+  const output = fn.outputs[0];
+  if (fn.outputs.length !== 1 || !output.fhevmInfo || output.fhevmInfo.isExternal) {
+    return null;
+  }
+
+  return {
+    name: `decrypt${methodName.charAt(0).toUpperCase()}${methodName.slice(1)}`,
+    fhevmTypeName: output.fhevmInfo.fhevmTypeName,
+    clearType: getClearType(output),
+  };
+}
+
+/**
+ * TypeScript type accepted for an input, plain values for external encrypted inputs
+ */
+function getInputType(param: ParsedParameter): string {
+  if (param.arrayItem) {
+    return `Array<${getInputType(param.arrayItem)}>`;
+  }
+  if (param.components) {
+    return formatObjectType(param.components, getInputType);
+  }
+  if (param.fhevmInfo?.isExternal) {
+    const clearType = getClearType(param);
+    return clearType === 'bigint' ? 'bigint | number' : clearType;
+  }
+  if (param.fhevmInfo) {
+    return 'string';
+  }
+  if (/^u?int\d*$/.test(param.type)) {
+    return 'bigint | number';
+  }
+  return param.type === 'bool' ? 'boolean' : 'string';
+}
+
+/**
+ * TypeScript type returned for an output, encrypted values as handles
+ */
+function getOutputType(param: ParsedParameter): string {
+  if (param.arrayItem) {
+    return `Array<${getOutputType(param.arrayItem)}>`;
+  }
+  if (param.components) {
+    return formatObjectType(param.components, getOutputType);
+  }
+  if (param.fhevmInfo) {
+    return 'string';
+  }
+  if (/^u?int\d*$/.test(param.type)) {
+    return 'bigint';
+  }
+  return param.type === 'bool' ? 'boolean' : 'string';
+}
+
+/**
+ * Return type of a view method
+ */
+function getReturnType(fn: ParsedFunction): string {
+  if (fn.outputs.length === 0) {
+    return 'void';
+  }
+  if (fn.outputs.length === 1) {
+    return getOutputType(fn.outputs[0]);
+  }
+  return `[${fn.outputs.map(getOutputType).join(', ')}]`;
+}
+
+/**
+ * Cleartext type of an encrypted value
+ */
+function getClearType(param: ParsedParameter): string {
+  switch (param.fhevmInfo?.fhevmTypeName) {
+    case 'ebool':
+      return 'boolean';
+    case 'eaddress':
+      return 'string';
+    default:
+      return 'bigint';
+  }
+}
+
+/**
+ * Format struct members as an object type
+ */
+function formatObjectType(
+  components: ParsedParameter[],
+  getType: (param: ParsedParameter) => string
+): string {
+  const fields = components.map((component) => `${component.name}: ${getType(component)}`);
+  return `{ ${fields.join('; ')} }`;
+}
+
+/**
+ * Format a function as a human-readable ABI entry for ethers
+ */
+function formatFunctionAbi(fn: ParsedFunction): string {
+  const inputs = fn.inputs.map((input) => `${formatAbiType(input)} ${input.name}`.trim());
+  const mutability = fn.stateMutability === 'nonpayable' ? '' : ` ${fn.stateMutability}`;
+  const outputs =
+    fn.outputs.length > 0 ? ` returns (${fn.outputs.map(formatAbiType).join(', ')})` : '';
+
+  return `function ${fn.name}(${inputs.join(', ')})${mutability}${outputs}`;
+}
+
+/**
+ * Format an ABI type, expanding tuples into their components
+ */
+function formatAbiType(param: ParsedParameter): string {
+  if (param.arrayItem) {
+    return `${formatAbiType(param.arrayItem)}[${param.arrayLength ?? ''}]`;
+  }
+  if (param.components) {
+    const members = param.components.map((component) =>
+      `${formatAbiType(component)} ${component.name}`.trim()
+    );
+    return `tuple(${members.join(', ')})`;
+  }
+  return param.type;
+}
+
+/**
+ * Format a function the way the client exposes it, with Solidity types
+ */
+function formatSignature(fn: ParsedFunction): string {
+  const inputs = fn.inputs
+    .filter((input) => input.name !== 'inputProof')
+    .map((input) => `${input.internalType ?? input.type} ${input.name}`.trim());
+  const outputs = fn.outputs.map((output) => output.internalType ?? output.type);
+
+  return `${fn.name}(${inputs.join(', ')})${outputs.length > 0 ? ` returns (${outputs.join(', ')})` : ''}`;
+}
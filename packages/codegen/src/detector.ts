@@ -130,6 +130,14 @@ export function encryptionBitsFromFheTypeName(name: FheTypeName): number {
   return FheTypeIdToEncryptionBitwidth[FheTypeNameToId[name]]
 }
 
+/**
+ * Returns all supported FheType names, ordered by type ID.
+ * @example getFheTypeNames() // ['ebool', 'euint8', ..., 'euint256']
+ */
+export function getFheTypeNames(): FheTypeName[] {
+  return Object.values(FheTypeIdToName)
+}
+
 ////////////////////////////////////////////////////////////////////////////////
 // FHEVM Type Detection
 ////////////////////////////////////////////////////////////////////////////////
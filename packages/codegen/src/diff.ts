@@ -0,0 +1,419 @@
+/**
+ * ABI Diff
+ * Compares two versions of a contract ABI and reports what changed for its consumers,
+ * singling out changes to encrypted types
+ */
+
+import type { Abi } from 'abitype'
+import type {
+  AbiChange,
+  AbiChangeDetail,
+  ParsedEvent,
+  ParsedFunction,
+  ParsedParameter,
+} from './types.js'
+import {
+  formatDisplayType,
+  getDisplaySignature,
+  parseContractAbi,
+  parseContractEvents,
+} from './parser.js'
+
+/**
+ * Function or event being compared
+ */
+interface Entry {
+  name: string
+  inputs: ParsedParameter[]
+}
+
+/**
+ * Compare two ABIs and list the functions and events added, removed or changed
+ */
+export function diffContractAbis(before: Abi, after: Abi): AbiChange[] {
+  return [
+    ...diffEntries(
+      'function',
+      parseContractAbi(before),
+      parseContractAbi(after),
+      getDisplaySignature,
+      compareFunctions
+    ),
+    ...diffEntries(
+      'event',
+      parseContractEvents(before),
+      parseContractEvents(after),
+      getEventSignature,
+      compareEvents
+    ),
+  ]
+}
+
+/**
+ * Check whether any change breaks existing callers
+ */
+export function hasBreakingChanges(changes: AbiChange[]): boolean {
+  return changes.some((change) => change.breaking)
+}
+
+/**
+ * Render ABI changes as markdown, e.g. for a pull request comment
+ */
+export function formatAbiDiffMarkdown(contractName: string, changes: AbiChange[]): string {
+  const lines = [`## ABI changes: ${contractName}`, '']
+
+  if (changes.length === 0) {
+    lines.push('No ABI changes.')
+    return `${lines.join('\n')}\n`
+  }
+
+  const breaking = changes.filter((change) => change.breaking)
+  const compatible = changes.filter((change) => !change.breaking)
+  const fheCount = breaking.filter((change) => change.fhe).length
+
+  const fheSummary = fheCount > 0 ? `, ${fheCount} to encrypted types` : ''
+  lines.push(
+    breaking.length > 0
+      ? `**${breaking.length} breaking change${breaking.length !== 1 ? 's' : ''}**${fheSummary}`
+      : 'No breaking changes.'
+  )
+
+  const section = (title: string, entries: AbiChange[]) => {
+    if (entries.length === 0) {
+      return
+    }
+    lines.push('', `### ${title}`, '')
+    for (const change of entries) {
+      lines.push(formatChangeMarkdown(change))
+      for (const detail of change.details) {
+        const tags = [detail.breaking ? 'breaking' : '', detail.fhe ? 'FHE' : ''].filter(Boolean)
+        lines.push(`  - ${detail.message}${tags.length > 0 ? ` _(${tags.join(', ')})_` : ''}`)
+      }
+    }
+  }
+  section('Breaking', breaking)
+  section('Compatible', compatible)
+
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * Markdown list item summarizing one change
+ */
+function formatChangeMarkdown(change: AbiChange): string {
+  const title = `${change.kind === 'function' ? 'Function' : 'Event'} ${change.change}`
+  const signature = change.previousSignature
+    ? `\`${change.previousSignature}\` → \`${change.signature}\``
+    : `\`${change.signature}\``
+  return `- **${title}** ${signature}${change.fhe ? ' _(FHE)_' : ''}`
+}
+
+/**
+ * Pair entries across versions and compare each pair
+ * Entries with the same signature are paired first, then the single remaining entry
+ * of a name on each side, so a changed parameter type shows as a change
+ */
+function diffEntries<T extends Entry>(
+  kind: AbiChange['kind'],
+  before: T[],
+  after: T[],
+  signature: (entry: T) => string,
+  compare: (before: T, after: T) => AbiChangeDetail[]
+): AbiChange[] {
+  const unmatched = new Set(after)
+  const pairs = new Map<T, T>()
+
+  for (const entry of before) {
+    const match = [...unmatched].find((candidate) => signature(candidate) === signature(entry))
+    if (match) {
+      pairs.set(entry, match)
+      unmatched.delete(match)
+    }
+  }
+
+  const remaining = before.filter((entry) => !pairs.has(entry))
+  for (const entry of remaining) {
+    const sameName = remaining.filter((other) => other.name === entry.name)
+    const candidates = [...unmatched].filter((candidate) => candidate.name === entry.name)
+    if (sameName.length === 1 && candidates.length === 1) {
+      pairs.set(entry, candidates[0])
+      unmatched.delete(candidates[0])
+    }
+  }
+
+  const changes: AbiChange[] = []
+
+  for (const entry of before) {
+    const match = pairs.get(entry)
+    if (!match) {
+      changes.push({
+        kind,
+        change: 'removed',
+        signature: signature(entry),
+        breaking: true,
+        fhe: entry.inputs.some(hasEncryptedType) || outputsOf(entry).some(hasEncryptedType),
+        details: [],
+      })
+      continue
+    }
+
+    const details = compare(entry, match)
+    if (details.length === 0) {
+      continue
+    }
+
+    const change: AbiChange = {
+      kind,
+      change: 'changed',
+      signature: signature(match),
+      breaking: details.some((detail) => detail.breaking),
+      fhe: details.some((detail) => detail.fhe),
+      details,
+    }
+    if (signature(entry) !== signature(match)) {
+      change.previousSignature = signature(entry)
+    }
+    changes.push(change)
+  }
+
+  for (const entry of after.filter((candidate) => unmatched.has(candidate))) {
+    changes.push({
+      kind,
+      change: 'added',
+      signature: signature(entry),
+      breaking: false,
+      fhe: entry.inputs.some(hasEncryptedType) || outputsOf(entry).some(hasEncryptedType),
+      details: [],
+    })
+  }
+
+  return changes
+}
+
+/**
+ * Compare two versions of a function
+ */
+function compareFunctions(before: ParsedFunction, after: ParsedFunction): AbiChangeDetail[] {
+  const details: AbiChangeDetail[] = []
+
+  const userInputs = (fn: ParsedFunction) => fn.inputs.filter((input) => input.name !== 'inputProof')
+  compareParameterLists('parameters', userInputs(before), userInputs(after), details)
+
+  const hadProof = before.inputs.length !== userInputs(before).length
+  const hasProof = after.inputs.length !== userInputs(after).length
+  if (hadProof !== hasProof) {
+    details.push({
+      message: hasProof ? 'now takes an input proof' : 'no longer takes an input proof',
+      breaking: true,
+      fhe: true,
+    })
+  }
+
+  compareParameterLists('returns', before.outputs, after.outputs, details, true)
+
+  if (before.stateMutability !== after.stateMutability) {
+    const isRead = (fn: ParsedFunction) => fn.stateMutability === 'view' || fn.stateMutability === 'pure'
+    // Reads turning into transactions change how results come back, and payable
+    // functions that stop accepting ether revert calls sending it
+    const breaking =
+      isRead(before) !== isRead(after) ||
+      (before.stateMutability === 'payable' && after.stateMutability !== 'payable')
+    details.push({
+      message: `state mutability: ${before.stateMutability} → ${after.stateMutability}`,
+      breaking,
+      fhe: false,
+    })
+  }
+
+  return details
+}
+
+/**
+ * Compare two versions of an event
+ */
+function compareEvents(before: ParsedEvent, after: ParsedEvent): AbiChangeDetail[] {
+  const details: AbiChangeDetail[] = []
+
+  compareParameterLists('fields', before.inputs, after.inputs, details)
+
+  if (before.inputs.length === after.inputs.length) {
+    before.inputs.forEach((field, index) => {
+      const next = after.inputs[index]
+      if (field.indexed !== next.indexed) {
+        details.push({
+          message: `${next.name || `#${index}`}: ${next.indexed ? 'now indexed' : 'no longer indexed'}`,
+          breaking: true,
+          fhe: hasEncryptedType(field) || hasEncryptedType(next),
+        })
+      }
+    })
+  }
+
+  if (before.anonymous !== after.anonymous) {
+    details.push({
+      message: after.anonymous ? 'now anonymous' : 'no longer anonymous',
+      breaking: true,
+      fhe: false,
+    })
+  }
+
+  return details
+}
+
+/**
+ * Compare parameter lists position by position
+ */
+function compareParameterLists(
+  label: string,
+  before: ParsedParameter[],
+  after: ParsedParameter[],
+  details: AbiChangeDetail[],
+  isOutput = false
+): void {
+  if (before.length !== after.length) {
+    details.push({
+      message: `${label}: (${before.map(formatDisplayType).join(',')}) → (${after.map(formatDisplayType).join(',')})`,
+      breaking: true,
+      fhe: [...before, ...after].some(hasEncryptedType),
+    })
+    return
+  }
+
+  before.forEach((param, index) => {
+    const next = after[index]
+    const path = isOutput ? `returns[${index}]` : next.name || `#${index}`
+
+    if (!isOutput && param.name !== next.name) {
+      details.push({
+        message: `${param.name || `#${index}`} renamed to ${next.name || `#${index}`}`,
+        breaking: false,
+        fhe: false,
+      })
+    }
+
+    compareParameters(path, param, next, details, isOutput)
+  })
+}
+
+/**
+ * Compare two versions of a parameter, descending into arrays and structs
+ * so a changed member is reported by its path, e.g. order.price
+ */
+function compareParameters(
+  path: string,
+  before: ParsedParameter,
+  after: ParsedParameter,
+  details: AbiChangeDetail[],
+  isOutput: boolean
+): void {
+  if (before.arrayItem && after.arrayItem && before.arrayLength === after.arrayLength) {
+    compareParameters(`${path}[]`, before.arrayItem, after.arrayItem, details, isOutput)
+    return
+  }
+
+  const beforeComponents = before.components
+  const afterComponents = after.components
+  if (
+    beforeComponents &&
+    afterComponents &&
+    !before.arrayItem &&
+    !after.arrayItem &&
+    beforeComponents.length === afterComponents.length
+  ) {
+    beforeComponents.forEach((component, index) => {
+      const next = afterComponents[index]
+      if (component.name !== next.name) {
+        details.push({
+          message: `${path}.${component.name} renamed to ${path}.${next.name}`,
+          breaking: false,
+          fhe: false,
+        })
+      }
+      compareParameters(`${path}.${next.name || index}`, component, next, details, isOutput)
+    })
+    return
+  }
+
+  const from = describeType(before)
+  const to = describeType(after)
+  if (from === to) {
+    return
+  }
+
+  const fheNote = describeFheChange(before, after, isOutput)
+  details.push({
+    message: `${path}: ${formatDisplayType(before)} → ${formatDisplayType(after)}${fheNote ? ` (${fheNote})` : ''}`,
+    breaking: true,
+    fhe: fheNote !== null || hasEncryptedType(before) || hasEncryptedType(after),
+  })
+}
+
+/**
+ * Explain what a type change means for encrypted values, or null when none are involved
+ */
+function describeFheChange(
+  before: ParsedParameter,
+  after: ParsedParameter,
+  isOutput: boolean
+): string | null {
+  const from = before.fhevmInfo
+  const to = after.fhevmInfo
+
+  if (!from && to) {
+    return isOutput ? 'now encrypted, callers must decrypt it' : 'now encrypted'
+  }
+  if (from && !to) {
+    return 'no longer encrypted'
+  }
+  if (!from || !to) {
+    return null
+  }
+  if (from.isExternal !== to.isExternal) {
+    return to.isExternal ? 'now an external input, encrypted by the caller' : 'no longer an external input'
+  }
+  if (from.bits !== to.bits) {
+    return `encrypted width ${from.bits} → ${to.bits} bits`
+  }
+  return null
+}
+
+/**
+ * Type of a parameter with tuples expanded and FHE types kept,
+ * so member changes inside a struct of the same name are noticed
+ */
+function describeType(param: ParsedParameter): string {
+  if (param.arrayItem) {
+    return `${describeType(param.arrayItem)}[${param.arrayLength ?? ''}]`
+  }
+  if (param.components) {
+    return `(${param.components.map(describeType).join(',')})`
+  }
+  return param.fhevmInfo?.solType ?? param.type
+}
+
+/**
+ * Check whether a parameter, or anything nested in it, is an encrypted type
+ */
+function hasEncryptedType(param: ParsedParameter): boolean {
+  if (param.fhevmInfo) {
+    return true
+  }
+  if (param.arrayItem) {
+    return hasEncryptedType(param.arrayItem)
+  }
+  return (param.components ?? []).some(hasEncryptedType)
+}
+
+/**
+ * Outputs of a function, none for events
+ */
+function outputsOf(entry: Entry): ParsedParameter[] {
+  return 'outputs' in entry ? (entry as ParsedFunction).outputs : []
+}
+
+/**
+ * Display signature of an event, e.g. Transfer(address,address,euint64)
+ */
+function getEventSignature(event: Entry): string {
+  return `${event.name}(${event.inputs.map(formatDisplayType).join(',')})`
+}
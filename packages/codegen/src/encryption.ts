@@ -0,0 +1,136 @@
+/**
+ * Encryption Helpers
+ * Shared by the generators to encrypt external inputs, including nested ones
+ */
+
+import { getAddress, isAddress } from 'ethers';
+import { hasExternalInput } from './parser.js';
+import type { FheTypeName, ParsedParameter } from './types.js';
+
+/**
+ * Get the encryption method name for a FHEVM type
+ */
+export function getEncryptionMethod(bits: number): string {
+  switch (bits) {
+    case 2:
+      return 'addBool'; // ebool
+    case 8:
+      return 'add8';
+    case 16:
+      return 'add16';
+    case 32:
+      return 'add32';
+    case 64:
+      return 'add64';
+    case 128:
+      return 'add128';
+    case 160:
+      return 'addAddress'; // eaddress
+    case 256:
+      return 'add256';
+    default:
+      return 'add32';
+  }
+}
+
+/**
+ * Check whether a parameter is a struct, tuple or array passed as JSON
+ */
+export function isJsonParameter(param: ParsedParameter): boolean {
+  return param.arrayItem !== undefined || param.components !== undefined;
+}
+
+/**
+ * Describe where the encrypted values sit inside a parameter, for collectEncrypted()
+ */
+export function getEncryptionSpec(param: ParsedParameter): object | null {
+  if (!hasExternalInput(param)) {
+    return null;
+  }
+  if (param.fhevmInfo?.isExternal) {
+    return {
+      encrypt: getEncryptionMethod(param.fhevmInfo.bits),
+      type: param.fhevmInfo.fhevmTypeName,
+    };
+  }
+  if (param.arrayItem) {
+    return { items: getEncryptionSpec(param.arrayItem) };
+  }
+  return {
+    components: (param.components ?? []).map((component) => [
+      component.name,
+      getEncryptionSpec(component),
+    ]),
+  };
+}
+
+/**
+ * Encryption bit width of a FHE type, e.g. 8 for euint8
+ */
+export function getTypeBits(fheType: FheTypeName): number {
+  if (fheType === 'ebool') {
+    return 2;
+  }
+  if (fheType === 'eaddress') {
+    return 160;
+  }
+  return Number(fheType.slice('euint'.length));
+}
+
+/**
+ * Describe the plaintexts a FHE type accepts, e.g. "0 to 255" for euint8
+ */
+export function getValueRange(fheType: FheTypeName): string {
+  if (fheType === 'ebool') {
+    return 'true or false';
+  }
+  if (fheType === 'eaddress') {
+    return 'a checksummed address';
+  }
+  return `0 to ${(1n << BigInt(getTypeBits(fheType))) - 1n}`;
+}
+
+/**
+ * Parse the plaintext of an encrypted input and check it fits its FHE type
+ * Integers are parsed as bigint so euint128 and euint256 keep full precision
+ */
+export function parseEncryptedValue(fheType: FheTypeName, value: unknown): bigint | boolean | string {
+  const text = String(value).trim();
+  const invalid = () =>
+    new Error(`Invalid ${fheType} value: ${text}, expected ${getValueRange(fheType)}`);
+
+  if (fheType === 'ebool') {
+    if (typeof value === 'boolean') {
+      return value;
+    }
+    if (text === 'true' || text === '1') {
+      return true;
+    }
+    if (text === 'false' || text === '0') {
+      return false;
+    }
+    throw invalid();
+  }
+
+  if (fheType === 'eaddress') {
+    // isAddress() rejects mixed-case addresses with a bad checksum
+    if (!isAddress(text)) {
+      throw invalid();
+    }
+    return getAddress(text);
+  }
+
+  let parsed: bigint;
+  if (typeof value === 'bigint') {
+    parsed = value;
+  } else if (typeof value === 'number' ? Number.isSafeInteger(value) : /^(\d+|0x[0-9a-f]+)$/i.test(text)) {
+    parsed = BigInt(text);
+  } else {
+    throw invalid();
+  }
+
+  if (parsed < 0n || parsed >= 1n << BigInt(getTypeBits(fheType))) {
+    throw new Error(`${fheType} value out of range: ${text}, expected ${getValueRange(fheType)}`);
+  }
+  return parsed;
+}
@@ -6,4 +6,10 @@
 export * from './types.js'
 export * from './parser.js'
 export * from './detector.js'
+export * from './oracle.js'
+export * from './encryption.js'
+export * from './diff.js'
 export * from './task-generator.js'
+export * from './client-generator.js'
+export * from './test-generator.js'
+export * from './template-loader.js'
@@ -0,0 +1,154 @@
+/**
+ * Decryption Oracle Detector
+ * Pairs public decryption requests with their oracle callbacks,
+ * using ABI shapes and naming conventions
+ */
+
+import type { DecryptionFlow, ParsedEvent, ParsedFunction, ParsedParameter } from './types.js'
+
+// Name words that describe the decryption round trip rather than what is decrypted
+const FLOW_WORDS = new Set([
+  'callback',
+  'fulfill',
+  'fulfilled',
+  'resolve',
+  'resolved',
+  'on',
+  'request',
+  'requested',
+  'decrypt',
+  'decryption',
+  'decrypted',
+  'reveal',
+  'revealed',
+  'result',
+  'public',
+])
+
+// Words marking a function as the one submitting a request
+// A function named after decryption is only a request when paired with a callback by subject or event
+const REQUEST_WORDS = new Set(['request', 'reveal', 'decrypt', 'decryption'])
+
+// Words marking a function as an oracle callback
+const CALLBACK_WORDS = new Set(['callback', 'fulfill', 'resolve', 'on'])
+
+/**
+ * Split a camelCase or snake_case name into lowercase words
+ */
+function splitWords(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[\s_]+/)
+    .filter((word) => word !== '')
+    .map((word) => word.toLowerCase())
+}
+
+/**
+ * What a request or callback is about: its name without the flow words
+ * e.g. requestDecryptCount and callbackDecryptCount both give "count"
+ */
+function getStem(name: string): string {
+  return splitWords(name)
+    .filter((word) => !FLOW_WORDS.has(word))
+    .join('')
+}
+
+/**
+ * Check whether a parameter holds the request id
+ */
+function isRequestId(param: ParsedParameter): boolean {
+  return /^_?requestid$/i.test(param.name) && /^uint\d*$/.test(param.type)
+}
+
+/**
+ * Check whether a parameter holds the KMS signatures or decryption proof
+ */
+function isDecryptionProof(param: ParsedParameter): boolean {
+  return /signature|proof/i.test(param.name) && (param.type === 'bytes' || param.type === 'bytes[]')
+}
+
+/**
+ * Check whether a function looks like an oracle callback:
+ * callback(uint256 requestId, <cleartexts>, bytes[] signatures)
+ * or callback(uint256 requestId, bytes cleartexts, bytes decryptionProof)
+ */
+export function isDecryptionCallback(fn: ParsedFunction): boolean {
+  if (fn.stateMutability === 'view' || fn.stateMutability === 'pure') {
+    return false
+  }
+
+  const [first] = fn.inputs
+  if (!first || !isRequestId(first)) {
+    return false
+  }
+
+  const named = splitWords(fn.name).some((word) => CALLBACK_WORDS.has(word))
+  return named || fn.inputs.some(isDecryptionProof)
+}
+
+/**
+ * Detect public decryption flows: each oracle callback with the function requesting it
+ */
+export function detectDecryptionFlows(
+  functions: ParsedFunction[],
+  events: ParsedEvent[] = []
+): DecryptionFlow[] {
+  const callbacks = functions.filter(isDecryptionCallback)
+  const requests = functions.filter(
+    (fn) =>
+      fn.stateMutability !== 'view' &&
+      fn.stateMutability !== 'pure' &&
+      !callbacks.includes(fn) &&
+      splitWords(fn.name).some((word) => REQUEST_WORDS.has(word))
+  )
+
+  // Events announcing a request id, e.g. HighestBidDecryptionRequested or DecryptionRequested
+  const announcing = events.filter(
+    (event) =>
+      event.inputs.some(isRequestId) &&
+      splitWords(event.name).some((word) => word === 'request' || word === 'requested')
+  )
+  const generic = announcing.filter((event) => getStem(event.name) === '')
+  const findEvent = (stem: string) =>
+    announcing.find((event) => getStem(event.name) === stem) ??
+    (generic.length === 1 ? generic[0] : undefined)
+
+  const flows: DecryptionFlow[] = []
+
+  for (const callback of callbacks) {
+    const stem = getStem(callback.name)
+
+    // Same subject, or else the only request announced by an event when the contract
+    // has a single flow. Other requests are not guessed, their callback may answer anything
+    let request = requests.find((fn) => getStem(fn.name) === stem)
+    if (!request && requests.length === 1 && callbacks.length === 1 && findEvent(getStem(requests[0].name))) {
+      request = requests[0]
+    }
+    if (!request) {
+      continue
+    }
+
+    const flow: DecryptionFlow = {
+      request,
+      callback,
+      cleartexts: callback.inputs.slice(1).filter((input) => !isDecryptionProof(input)),
+    }
+
+    // A single bytes parameter holds every cleartext ABI-encoded, typed by the requested handles
+    const [encoded] = flow.cleartexts
+    if (flow.cleartexts.length === 1 && encoded.type === 'bytes') {
+      flow.encodedCleartexts = encoded
+      flow.cleartexts = []
+    }
+
+    const requestEvent = findEvent(stem) ?? findEvent(getStem(request.name))
+    if (requestEvent) {
+      flow.requestEvent = requestEvent
+      flow.requestIdField = requestEvent.inputs.find(isRequestId)?.name
+    }
+
+    flows.push(flow)
+  }
+
+  return flows
+}
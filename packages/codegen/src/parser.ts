@@ -3,12 +3,19 @@
  * Parses contract ABIs and extracts function information
  */
 
-import type { Abi, AbiFunction, AbiParameter } from 'abitype'
-import type { ParsedParameter, ParsedFunction } from './types.js'
+import type { Abi, AbiConstructor, AbiError, AbiEvent, AbiFunction, AbiParameter } from 'abitype'
+import type {
+  ParsedContract,
+  ParsedError,
+  ParsedEvent,
+  ParsedFunction,
+  ParsedParameter,
+} from './types.js'
 import { detectFHEVMType } from './detector.js'
 
 /**
  * Parse ABI parameter into structured format
+ * Arrays and tuples become trees, with FHEVM types detected on the leaves
  */
 function parseParameter(param: AbiParameter): ParsedParameter {
   const parsed: ParsedParameter = {
@@ -16,6 +23,29 @@ function parseParameter(param: AbiParameter): ParsedParameter {
     type: param.type,
   }
 
+  // Arrays: parse the element type, e.g. externalEuint32[] -> externalEuint32
+  const arrayMatch = param.type.match(/^(.*)\[(\d*)\]$/)
+  if (arrayMatch) {
+    if (param.internalType) {
+      parsed.internalType = param.internalType
+    }
+    parsed.arrayItem = parseParameter({
+      ...param,
+      name: '',
+      type: arrayMatch[1],
+      internalType: param.internalType?.replace(/\[\d*\]$/, ''),
+    } as AbiParameter)
+    if (arrayMatch[2]) {
+      parsed.arrayLength = Number(arrayMatch[2])
+    }
+    return parsed
+  }
+
+  // Tuples and structs: parse each member
+  if ('components' in param && param.components) {
+    parsed.components = param.components.map(parseParameter)
+  }
+
   // Add internalType if present
   if (param.internalType) {
     parsed.internalType = param.internalType
@@ -30,6 +60,19 @@ function parseParameter(param: AbiParameter): ParsedParameter {
   return parsed
 }
 
+/**
+ * Check whether a parameter, or anything nested in it, needs client-side encryption
+ */
+export function hasExternalInput(param: ParsedParameter): boolean {
+  if (param.fhevmInfo?.isExternal) {
+    return true
+  }
+  if (param.arrayItem) {
+    return hasExternalInput(param.arrayItem)
+  }
+  return (param.components ?? []).some(hasExternalInput)
+}
+
 /**
  * Parse ABI function into structured format
  */
@@ -47,6 +90,67 @@ function parseFunction(abiFunction: AbiFunction): ParsedFunction {
   return parsed
 }
 
+/**
+ * Parse ABI event into structured format
+ */
+function parseEvent(abiEvent: AbiEvent): ParsedEvent {
+  const inputs = abiEvent.inputs.map((input) => ({
+    ...parseParameter(input),
+    indexed: input.indexed ?? false,
+  }))
+
+  return {
+    name: abiEvent.name,
+    inputs,
+    anonymous: abiEvent.anonymous ?? false,
+  }
+}
+
+/**
+ * Parse ABI custom error into structured format
+ */
+function parseError(abiError: AbiError): ParsedError {
+  return {
+    name: abiError.name,
+    inputs: abiError.inputs.map(parseParameter),
+  }
+}
+
+/**
+ * Parse contract ABI and extract all events
+ */
+export function parseContractEvents(abi: Abi): ParsedEvent[] {
+  return abi.filter((item): item is AbiEvent => item.type === 'event').map(parseEvent)
+}
+
+/**
+ * Parse contract ABI and extract all custom errors
+ */
+export function parseContractErrors(abi: Abi): ParsedError[] {
+  return abi.filter((item): item is AbiError => item.type === 'error').map(parseError)
+}
+
+/**
+ * Parse the constructor parameters of a contract ABI, null when it declares no constructor
+ */
+export function parseConstructorInputs(abi: Abi): ParsedParameter[] | null {
+  const abiConstructor = abi.find((item): item is AbiConstructor => item.type === 'constructor')
+  return abiConstructor ? abiConstructor.inputs.map(parseParameter) : null
+}
+
+/**
+ * Parse a contract ABI into functions, events and custom errors
+ */
+export function parseContract(name: string, address: string, abi: Abi): ParsedContract {
+  return {
+    name,
+    address,
+    abi: parseContractAbi(abi),
+    events: parseContractEvents(abi),
+    errors: parseContractErrors(abi),
+  }
+}
+
 /**
  * Parse contract ABI and extract all functions
  */
@@ -61,3 +165,97 @@ export function parseContractAbi(abi: Abi): ParsedFunction[] {
 
   return parsedFunctions
 }
+
+/**
+ * Canonical ABI signature of a function, e.g. transfer(address,bytes32,bytes)
+ * Unique per contract, so it tells overloads apart where the name can't
+ */
+export function getFunctionSignature(fn: ParsedFunction): string {
+  return `${fn.name}(${fn.inputs.map(formatCanonicalType).join(',')})`
+}
+
+/**
+ * Signature as users call a function: FHE types, without the input proof
+ * e.g. transfer(address,externalEuint64)
+ */
+export function getDisplaySignature(fn: ParsedFunction): string {
+  return `${fn.name}(${getParameterTypeNames(fn).join(',')})`
+}
+
+/**
+ * Solidity types of the parameters users pass, without the input proof
+ */
+export function getParameterTypeNames(fn: ParsedFunction): string[] {
+  return fn.inputs.filter((input) => input.name !== 'inputProof').map(formatDisplayType)
+}
+
+/**
+ * Identifier for a function in generated code
+ * Overloads get their parameter types appended: transferAddressExternalEuint64
+ */
+export function getMethodName(fn: ParsedFunction, overloaded: Set<string>): string {
+  if (!overloaded.has(fn.name)) {
+    return fn.name
+  }
+
+  const suffix = getParameterTypeNames(fn)
+    .map(getTypeIdentifier)
+    .map((type) => `${type.charAt(0).toUpperCase()}${type.slice(1)}`)
+    .join('')
+
+  return `${fn.name}${suffix}`
+}
+
+/**
+ * Parameter type as an identifier, keeping fixed array lengths apart
+ * e.g. uint256[2] -> uint256Array2, uint256[] -> uint256Array
+ */
+export function getTypeIdentifier(type: string): string {
+  return type.replace(/\[(\d*)\]/g, 'Array$1').replace(/\W/g, '')
+}
+
+/**
+ * Names shared by more than one function
+ */
+export function getOverloadedNames(functions: ParsedFunction[]): Set<string> {
+  const seen = new Set<string>()
+  const overloaded = new Set<string>()
+
+  for (const fn of functions) {
+    if (seen.has(fn.name)) {
+      overloaded.add(fn.name)
+    }
+    seen.add(fn.name)
+  }
+
+  return overloaded
+}
+
+/**
+ * ABI type with tuples expanded, as used in canonical signatures
+ */
+function formatCanonicalType(param: ParsedParameter): string {
+  if (param.arrayItem) {
+    return `${formatCanonicalType(param.arrayItem)}[${param.arrayLength ?? ''}]`
+  }
+  if (param.components) {
+    return `(${param.components.map(formatCanonicalType).join(',')})`
+  }
+  return param.type
+}
+
+/**
+ * Solidity type of a parameter, preferring FHE types and struct names
+ */
+export function formatDisplayType(param: ParsedParameter): string {
+  if (param.arrayItem) {
+    return `${formatDisplayType(param.arrayItem)}[${param.arrayLength ?? ''}]`
+  }
+  if (param.components && param.internalType?.startsWith('struct ')) {
+    return param.internalType.substring(7)
+  }
+  if (param.components) {
+    return `(${param.components.map(formatDisplayType).join(',')})`
+  }
+  return param.fhevmInfo?.solType ?? param.type
+}
@@ -3,27 +3,37 @@
  * Generates Hardhat task definitions from parsed ABI
  */
 
-import Handlebars from 'handlebars';
-import { readFileSync } from 'node:fs';
-import { fileURLToPath } from 'node:url';
-import { dirname, join } from 'node:path';
-import type { ParsedFunction, ParsedParameter } from './types.js';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-
-// Get templates directory
-// In src: src/task-generator.ts → src/templates
-// In lib: lib/src/task-generator.js → lib/templates (go up one level)
-const templatesDir = join(__dirname, '../templates');
+import {
+  getDisplaySignature,
+  getFunctionSignature,
+  getOverloadedNames,
+  getParameterTypeNames,
+  getTypeIdentifier,
+  hasExternalInput,
+} from './parser.js';
+import {
+  getEncryptionMethod,
+  getEncryptionSpec,
+  getValueRange,
+  isJsonParameter,
+} from './encryption.js';
+import { detectDecryptionFlows } from './oracle.js';
+import { loadTemplate, type TemplateOptions } from './template-loader.js';
+import type {
+  DecryptionFlow,
+  ParsedError,
+  ParsedEvent,
+  ParsedFunction,
+  ParsedParameter,
+} from './types.js';
 
 /**
- * Load and compile a Handlebars template
+ * Events and custom errors used to decode transaction results,
+ * and the template set to render tasks with
  */
-function loadTemplate(name: string): HandlebarsTemplateDelegate {
-  const templatePath = join(templatesDir, `${name}.hbs`);
-  const templateSource = readFileSync(templatePath, 'utf-8');
-  return Handlebars.compile(templateSource);
+export interface TaskGeneratorOptions extends TemplateOptions {
+  events?: ParsedEvent[];
+  errors?: ParsedError[];
 }
 
 /**
@@ -31,11 +41,12 @@ function loadTemplate(name: string): HandlebarsTemplateDelegate {
  */
 export function generateTasks(
   contractName: string,
-  functions: ParsedFunction[]
+  functions: ParsedFunction[],
+  options: TaskGeneratorOptions = {}
 ): string {
   // Load templates
-  const taskTemplate = loadTemplate('task');
-  const decryptTaskTemplate = loadTemplate('decryptTask');
+  const taskTemplate = loadTemplate('task', options.templateDir);
+  const decryptTaskTemplate = loadTemplate('decryptTask', options.templateDir);
 
   const taskCodes: string[] = [];
 
@@ -43,43 +54,196 @@ export function generateTasks(
   taskCodes.push('import { task } from "hardhat/config";');
   taskCodes.push('');
 
+  // Add helpers for encrypting values inside struct and array arguments
+  const needsJsonHelpers = functions.some(
+    (fn) => fn.inputs.some(isJsonParameter) && fn.inputs.some(hasExternalInput)
+  );
+  if (needsJsonHelpers) {
+    taskCodes.push(loadTemplate('jsonArgs', options.templateDir)({}));
+  }
+
+  // Add helper for checking plaintexts against the bit width of their FHE type
+  if (functions.some((fn) => fn.inputs.some(hasExternalInput))) {
+    taskCodes.push(loadTemplate('validate', options.templateDir)({}));
+  }
+
+  // Add helpers for decoding emitted events and custom error reverts
+  const hasEvents = (options.events ?? []).length > 0;
+  const hasErrors = (options.errors ?? []).length > 0;
+  if (hasEvents) {
+    const encryptedFields = getEncryptedEventFields(options.events ?? []);
+    taskCodes.push(
+      loadTemplate('events', options.templateDir)({
+        contractName,
+        encryptedFields: JSON.stringify(encryptedFields),
+      })
+    );
+  }
+  if (hasErrors) {
+    taskCodes.push(loadTemplate('revert', options.templateDir)({ contractName }));
+  }
+
+  // Add helper for parsing ether amounts sent to payable functions
+  if (functions.some((fn) => fn.stateMutability === 'payable')) {
+    taskCodes.push(loadTemplate('value', options.templateDir)({}));
+  }
+
+  // Add helpers for waiting on public decryption callbacks
+  const flows = detectDecryptionFlows(functions, options.events ?? []);
+  if (flows.length > 0) {
+    taskCodes.push(
+      loadTemplate('oracle', options.templateDir)({
+        hasEncodedCleartexts: flows.some((flow) => flow.encodedCleartexts),
+      })
+    );
+  }
+
+  // Overloads share a name, so their tasks are named after their signature
+  const overloaded = getOverloadedNames(functions);
+
   // Generate task for each function
   functions.forEach((fn) => {
     // Generate main function task
-    const taskData = generateFunctionTaskData(contractName, fn);
-    const taskCode = taskTemplate(taskData);
+    const taskData = generateFunctionTaskData(contractName, fn, overloaded);
+    const taskCode = taskTemplate({ ...taskData, hasEvents, hasErrors });
     taskCodes.push(taskCode);
 
     // Generate decrypt task if function returns encrypted value
-    const decryptTaskData = generateDecryptTaskData(contractName, fn);
+    const decryptTaskData = generateDecryptTaskData(contractName, fn, overloaded);
     if (decryptTaskData) {
       const decryptCode = decryptTaskTemplate(decryptTaskData);
       taskCodes.push(decryptCode);
     }
   });
 
+  // Generate a task per public decryption flow, waiting for the oracle callback
+  const publicDecryptTemplate = loadTemplate('publicDecryptTask', options.templateDir);
+  for (const flow of flows) {
+    const flowData = generatePublicDecryptTaskData(contractName, flow, overloaded);
+    taskCodes.push(publicDecryptTemplate({ ...flowData, hasEvents, hasErrors }));
+  }
+
   return taskCodes.join('\n\n');
 }
 
+/**
+ * Get the Hardhat task name of a function, e.g. fhecounter:increment
+ * Overloads get their parameter types appended: token:transfer-address-externalEuint64
+ */
+export function getTaskName(
+  contractName: string,
+  fn: ParsedFunction,
+  functions: ParsedFunction[]
+): string {
+  return `${contractName.toLowerCase()}:${getTaskKey(fn, getOverloadedNames(functions))}`;
+}
+
+/**
+ * Get the Hardhat task name of the decrypt task for a view function
+ */
+export function getDecryptTaskName(
+  contractName: string,
+  fn: ParsedFunction,
+  functions: ParsedFunction[]
+): string {
+  return `${contractName.toLowerCase()}:decrypt-${getTaskKey(fn, getOverloadedNames(functions))}`;
+}
+
+/**
+ * Name of the task param holding the ether sent to a payable function
+ * Falls back to msgvalue when the function has its own `value` parameter
+ */
+export function getValueParamName(fn: ParsedFunction): string {
+  const taken = fn.inputs.some((input) => (input.name || 'arg').toLowerCase() === 'value');
+  return taken ? 'msgvalue' : 'value';
+}
+
+/**
+ * Function name, with the parameter types of overloads appended
+ */
+function getTaskKey(fn: ParsedFunction, overloaded: Set<string>): string {
+  if (!overloaded.has(fn.name)) {
+    return fn.name;
+  }
+
+  return [fn.name, ...getParameterTypeNames(fn).map(getTypeIdentifier)].join('-');
+}
+
+/**
+ * Expression calling a function on `contract`, by signature for overloads
+ */
+function getCallee(fn: ParsedFunction, overloaded: Set<string>): string {
+  return overloaded.has(fn.name)
+    ? `contract["${getFunctionSignature(fn)}"]`
+    : `contract.${fn.name}`;
+}
+
 /**
  * Generate data for function task template
  */
 function generateFunctionTaskData(
   contractName: string,
-  fn: ParsedFunction
+  fn: ParsedFunction,
+  overloaded: Set<string>
 ) {
-  const hasExternalInputs = fn.inputs.some((input) => input.fhevmInfo?.isExternal);
+  const taskName = `${contractName.toLowerCase()}:${getTaskKey(fn, overloaded)}`;
+  const callee = getCallee(fn, overloaded);
+  const label = overloaded.has(fn.name) ? getDisplaySignature(fn) : fn.name;
+  const description = `Call ${label} function on ${contractName}`;
+  const hasExternalInputs = fn.inputs.some(hasExternalInput);
+  const hasJsonArgs = fn.inputs.some(isJsonParameter);
+  const userInputs = fn.inputs.filter((input) => input.name !== 'inputProof');
+  const isPayable = fn.stateMutability === 'payable';
+  const valueParam = isPayable ? getValueParamName(fn) : null;
+  const valueArg = { value: `{ value: parseValueArg(ethers, taskArgs.${valueParam}) }` };
 
   // Build parameters list (exclude inputProof)
-  const params = fn.inputs
-    .filter((input) => input.name !== 'inputProof')
-    .map((input) => ({
-      name: (input.name || 'arg').toLowerCase(),
-      description: getParamDescription(input),
-    }));
+  const params = userInputs.map((input) => ({
+    name: (input.name || 'arg').toLowerCase(),
+    description: getParamDescription(input),
+  }));
+
+  // Structs and arrays are passed as JSON and encrypted by the generated helpers
+  if (hasJsonArgs) {
+    const jsonArgs = userInputs.map((input) => {
+      const paramName = `taskArgs.${(input.name || 'arg').toLowerCase()}`;
+      return {
+        value: isJsonParameter(input) ? `JSON.parse(${paramName})` : paramName,
+      };
+    });
+    const argSpec = {
+      components: userInputs.map((input) => [input.name, getEncryptionSpec(input)]),
+    };
+
+    const callArgs = [{ value: '...args' }];
+    if (hasExternalInputs) {
+      callArgs.push({ value: 'encrypted.inputProof' });
+    }
+    if (isPayable) {
+      callArgs.push(valueArg);
+    }
+
+    return {
+      name: fn.name,
+      taskName,
+      description,
+      contractName,
+      functionName: fn.name,
+      callee,
+      params,
+      valueParam,
+      hasExternalInputs,
+      hasJsonArgs,
+      jsonArgs,
+      argSpec: JSON.stringify(argSpec),
+      encryptionCalls: [],
+      callArgs,
+      isView: fn.stateMutability === 'view' || fn.stateMutability === 'pure',
+    };
+  }
 
   // Build encryption calls for external inputs
-  const encryptionCalls: Array<{ method: string; param: string }> = [];
+  const encryptionCalls: Array<{ method: string; param: string; fheType: string }> = [];
   const callArgs: Array<{ value: string }> = [];
   let handleIndex = 0;
 
@@ -90,6 +254,7 @@ function generateFunctionTaskData(
       encryptionCalls.push({
         method,
         param: paramName,
+        fheType: input.fhevmInfo.fhevmTypeName,
       });
       callArgs.push({ value: `encrypted.handles[${handleIndex}]` });
       handleIndex++;
@@ -104,13 +269,20 @@ function generateFunctionTaskData(
     callArgs.push({ value: 'encrypted.inputProof' });
   }
 
+  // Send ether along with payable calls
+  if (isPayable) {
+    callArgs.push(valueArg);
+  }
+
   return {
     name: fn.name,
-    taskName: `${contractName.toLowerCase()}:${fn.name}`,
-    description: `Call ${fn.name} function on ${contractName}`,
+    taskName,
+    description,
     contractName,
     functionName: fn.name,
+    callee,
     params,
+    valueParam,
     hasExternalInputs,
     encryptionCalls,
     callArgs,
@@ -123,7 +295,8 @@ function generateFunctionTaskData(
  */
 function generateDecryptTaskData(
   contractName: string,
-  fn: ParsedFunction
+  fn: ParsedFunction,
+  overloaded: Set<string>
 ) {
   // Only generate decrypt tasks for view/pure functions that return encrypted values
   if (fn.stateMutability !== 'view' && fn.stateMutability !== 'pure') {
@@ -141,39 +314,66 @@ function generateDecryptTaskData(
   const typeId = encryptedOutput.fhevmInfo.fhevmTypeId;
 
   return {
-    taskName: `${contractName.toLowerCase()}:decrypt-${fn.name}`,
+    taskName: `${contractName.toLowerCase()}:decrypt-${getTaskKey(fn, overloaded)}`,
     description: `Get and decrypt ${fn.name} from ${contractName}`,
     contractName,
     functionName: fn.name,
+    callee: getCallee(fn, overloaded),
     fhevmTypeName: typeName,
     fhevmTypeId: typeId,
   };
 }
 
 /**
- * Get the encryption method name for a FHEVM type
+ * Generate data for public decryption task template
+ * The request is sent like any other call, then the task waits for the callback
+ */
+function generatePublicDecryptTaskData(
+  contractName: string,
+  flow: DecryptionFlow,
+  overloaded: Set<string>
+) {
+  const requestData = generateFunctionTaskData(contractName, flow.request, overloaded);
+  const taken = requestData.params.some((param) => param.name === 'timeout');
+
+  return {
+    ...requestData,
+    taskName: `${contractName.toLowerCase()}:public-decrypt-${getTaskKey(flow.request, overloaded)}`,
+    description: `Call ${flow.request.name} on ${contractName} and print the cleartexts passed to ${flow.callback.name}`,
+    timeoutParam: taken ? 'oracletimeout' : 'timeout',
+    callbackName: flow.callback.name,
+    callbackSignature: getFunctionSignature(flow.callback),
+    cleartexts: flow.cleartexts.map((param) => {
+      const index = flow.callback.inputs.indexOf(param);
+      return { label: param.name || `value${index}`, index };
+    }),
+    encodedCleartexts: flow.encodedCleartexts
+      ? {
+          label: flow.encodedCleartexts.name || 'cleartexts',
+          index: flow.callback.inputs.indexOf(flow.encodedCleartexts),
+        }
+      : undefined,
+    requestEvent: flow.requestEvent?.name,
+    requestIdField: flow.requestIdField,
+  };
+}
+
+/**
+ * Map each event to its fields that hold encrypted handles
  */
-function getEncryptionMethod(bits: number): string {
-  switch (bits) {
-    case 2:
-      return 'addBool'; // ebool
-    case 8:
-      return 'add8';
-    case 16:
-      return 'add16';
-    case 32:
-      return 'add32';
-    case 64:
-      return 'add64';
-    case 128:
-      return 'add128';
-    case 160:
-      return 'addAddress'; // eaddress
-    case 256:
-      return 'add256';
-    default:
-      return 'add32';
+function getEncryptedEventFields(events: ParsedEvent[]): Record<string, string[]> {
+  const fields: Record<string, string[]> = {};
+
+  for (const event of events) {
+    const encrypted = event.inputs
+      .filter((input) => input.fhevmInfo || input.arrayItem?.fhevmInfo)
+      .map((input) => input.name);
+    if (encrypted.length > 0) {
+      fields[event.name] = encrypted;
+    }
   }
+
+  return fields;
 }
 
 /**
@@ -181,7 +381,13 @@ function getEncryptionMethod(bits: number): string {
  */
 function getParamDescription(param: ParsedParameter): string {
   if (param.fhevmInfo?.isExternal) {
-    return `${param.fhevmInfo.fhevmTypeName} value (will be encrypted)`;
+    const { fhevmTypeName } = param.fhevmInfo;
+    return `${fhevmTypeName} value, ${getValueRange(fhevmTypeName)} (will be encrypted)`;
+  }
+  if (isJsonParameter(param)) {
+    const typeName = (param.internalType ?? param.type).replace(/^struct /, '');
+    const suffix = hasExternalInput(param) ? ' (external values will be encrypted)' : '';
+    return `JSON-encoded ${typeName}${suffix}`;
   }
   return `${param.type} value`;
 }
@@ -0,0 +1,93 @@
+/**
+ * Template Loader
+ * Loads and compiles the Handlebars templates shared by the generators
+ */
+
+import Handlebars from 'handlebars';
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { fileURLToPath } from 'node:url';
+import { basename, dirname, join, resolve } from 'node:path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const require = createRequire(import.meta.url);
+
+// Get templates directory
+// In src: src/template-loader.ts → src/templates
+// In lib: lib/src/template-loader.js → lib/templates (go up one level)
+const templatesDir = join(__dirname, '../templates');
+
+/**
+ * Where the generators look for templates
+ */
+export interface TemplateOptions {
+  // Project template set, e.g. .zcraft/templates
+  // Its .hbs files replace the bundled ones of the same name, partials/*.hbs are
+  // registered as partials and helpers.cjs exports are registered as helpers
+  templateDir?: string;
+}
+
+/**
+ * Directory holding the bundled templates
+ */
+export function getBundledTemplatesDir(): string {
+  return templatesDir;
+}
+
+/**
+ * Names of the bundled templates, e.g. task and decryptTask
+ */
+export function listTemplates(): string[] {
+  return readdirSync(templatesDir)
+    .filter((file) => file.endsWith('.hbs'))
+    .map((file) => basename(file, '.hbs'))
+    .sort();
+}
+
+/**
+ * Load and compile a Handlebars template, preferring the project's copy
+ */
+export function loadTemplate(name: string, templateDir?: string): Handlebars.TemplateDelegate {
+  const customPath = templateDir ? join(templateDir, `${name}.hbs`) : null;
+  const templatePath =
+    customPath && existsSync(customPath) ? customPath : join(templatesDir, `${name}.hbs`);
+  const templateSource = readFileSync(templatePath, 'utf-8');
+  return createEnvironment(templateDir).compile(templateSource);
+}
+
+/**
+ * Handlebars instance with a template set's partials and helpers registered
+ * Built per call so edits to the set are picked up in watch mode
+ */
+function createEnvironment(templateDir?: string): typeof Handlebars {
+  if (!templateDir) {
+    return Handlebars;
+  }
+
+  const environment = Handlebars.create();
+
+  const partialsDir = join(templateDir, 'partials');
+  if (existsSync(partialsDir)) {
+    for (const file of readdirSync(partialsDir).filter((entry) => entry.endsWith('.hbs'))) {
+      environment.registerPartial(
+        basename(file, '.hbs'),
+        readFileSync(join(partialsDir, file), 'utf-8')
+      );
+    }
+  }
+
+  const helpersPath = resolve(templateDir, 'helpers.cjs');
+  if (existsSync(helpersPath)) {
+    // Reload so edits are picked up in watch mode
+    delete require.cache[helpersPath];
+    const helpers: Record<string, unknown> = require(helpersPath);
+    for (const [name, helper] of Object.entries(helpers)) {
+      if (typeof helper === 'function') {
+        environment.registerHelper(name, helper as Handlebars.HelperDelegate);
+      }
+    }
+  }
+
+  return environment;
+}
@@ -0,0 +1,333 @@
+/**
+ * Test Generator
+ * Generates mocha/chai test scaffolds for the Hardhat FHEVM mock from parsed ABI
+ */
+
+import { getEncryptionMethod, isJsonParameter } from './encryption.js';
+import {
+  getDisplaySignature,
+  getFunctionSignature,
+  getMethodName,
+  getOverloadedNames,
+} from './parser.js';
+import { loadTemplate, type TemplateOptions } from './template-loader.js';
+import type { FHEVMTypeInfo, ParsedFunction, ParsedParameter } from './types.js';
+
+/**
+ * Values an encrypted input is tested with, in the order of the test cases
+ */
+export interface BoundaryValues {
+  zero: string; // Smallest value
+  max: string; // Largest value
+  step: string | null; // Value that overflows max, null when the type can't overflow
+}
+
+/**
+ * Test case of a state-changing function, pending when its expectation is left to the user
+ */
+interface WriteCase {
+  title: string;
+  pending: boolean;
+  calls: string[][]; // Arguments of each call, in order
+  expectation: string;
+  before?: string; // Reader helper to call before the calls
+  assertion?: string;
+}
+
+type Reader = ReturnType<typeof generateReaderData>;
+
+/**
+ * Constructor parameters to deploy with, and the template set to render the scaffold with
+ */
+export interface TestGeneratorOptions extends TemplateOptions {
+  // From parseConstructorInputs, null when the ABI declares no constructor
+  constructorInputs?: ParsedParameter[] | null;
+}
+
+// Functions whose names say they add to or subtract from a value, like increment or deposit
+const ARITHMETIC_NAME =
+  /^(increment|decrement|increase|decrease|add|sub|deposit|accumulate)([A-Z0-9_]|$)/;
+
+/**
+ * Generate a mocha/chai test scaffold from parsed contract functions
+ */
+export function generateTestScaffold(
+  contractName: string,
+  functions: ParsedFunction[],
+  options: TestGeneratorOptions = {}
+): string {
+  const testTemplate = loadTemplate('test', options.templateDir);
+
+  const overloaded = getOverloadedNames(functions);
+  const isView = (fn: ParsedFunction) => fn.stateMutability === 'view' || fn.stateMutability === 'pure';
+  const readers = functions
+    .filter((fn) => isView(fn) && getEncryptedOutput(fn))
+    .map((fn) => generateReaderData(fn, overloaded));
+
+  // A constructor may set encrypted state, so the values after deployment are left to the user
+  const constructorInputs = options.constructorInputs ?? null;
+
+  return testTemplate({
+    contractName,
+    deployArgs: (constructorInputs ?? []).map(getPlaceholder),
+    initialStateUnknown: constructorInputs !== null,
+    readers,
+    views: functions
+      .filter((fn) => isView(fn) && !getEncryptedOutput(fn))
+      .map((fn) => ({
+        ...getNaming(fn, overloaded),
+        args: fn.inputs.map(getPlaceholder),
+      })),
+    writes: functions
+      .filter((fn) => !isView(fn))
+      .map((fn) => generateWriteData(fn, overloaded, readers)),
+  });
+}
+
+/**
+ * Get the boundary values of an encrypted type as TypeScript expressions
+ */
+export function getBoundaryValues(info: FHEVMTypeInfo): BoundaryValues {
+  switch (info.fhevmTypeName) {
+    case 'ebool':
+      return { zero: 'false', max: 'true', step: null };
+    case 'eaddress':
+      return { zero: 'ethers.ZeroAddress', max: 'signers[1].address', step: null };
+    default:
+      return { zero: '0n', max: `2n ** ${info.bits}n - 1n`, step: '1n' };
+  }
+}
+
+/**
+ * Generate data for a view returning an encrypted value, decrypted by a helper
+ */
+function generateReaderData(fn: ParsedFunction, overloaded: Set<string>) {
+  const info = getEncryptedOutput(fn) as FHEVMTypeInfo;
+  const naming = getNaming(fn, overloaded);
+  const capitalized = `${naming.helperName.charAt(0).toUpperCase()}${naming.helperName.slice(1)}`;
+  const variable = `clear${capitalized}`;
+
+  let decryptCall: string;
+  let zeroValue: string;
+
+  switch (info.fhevmTypeName) {
+    case 'ebool':
+      decryptCall = 'fhevm.userDecryptEbool(handle, contractAddress, signers[0])';
+      zeroValue = 'false';
+      break;
+    case 'eaddress':
+      decryptCall = 'fhevm.userDecryptEaddress(handle, contractAddress, signers[0])';
+      zeroValue = 'ethers.ZeroAddress';
+      break;
+    default:
+      decryptCall = `fhevm.userDecryptEuint(FhevmType.${info.fhevmTypeName}, handle, contractAddress, signers[0])`;
+      zeroValue = '0n';
+  }
+
+  return {
+    ...naming,
+    helperName: `decrypt${capitalized}`,
+    args: fn.inputs.map(getPlaceholder),
+    variable,
+    decryptCall,
+    zeroValue,
+    fhevmTypeName: info.fhevmTypeName,
+    // State that was never written has no handle and reads back as zero
+    assertion: `expect(${variable}).to.equal(${zeroValue});`,
+  };
+}
+
+/**
+ * Generate data for a state-changing function, with boundary cases for encrypted inputs
+ */
+function generateWriteData(fn: ParsedFunction, overloaded: Set<string>, readers: Reader[]) {
+  const naming = getNaming(fn, overloaded);
+
+  if (fn.inputs.some(isJsonParameter)) {
+    return {
+      ...naming,
+      skip: true,
+      skipReason: 'build the struct and array arguments, encrypting the external values',
+    };
+  }
+
+  // A handle the caller isn't allowed to use makes the call revert, so there's nothing to pass yet
+  if (fn.inputs.some((input) => input.fhevmInfo && !input.fhevmInfo.isExternal)) {
+    return {
+      ...naming,
+      skip: true,
+      skipReason: 'pass handles the caller is allowed to use, e.g. read from the contract',
+    };
+  }
+
+  const externalInputs = fn.inputs.filter((input) => input.fhevmInfo?.isExternal);
+  const params = externalInputs.map((input, index) => ({
+    name: input.name || `arg${index}`,
+    tsType: getClearType(input.fhevmInfo as FHEVMTypeInfo),
+  }));
+
+  // Encrypted inputs come from the helper parameters, plain ones from placeholders
+  const encryptionCalls: Array<{ method: string; param: string }> = [];
+  const callArgs: string[] = [];
+  let handleIndex = 0;
+
+  for (const input of fn.inputs) {
+    if (input.fhevmInfo?.isExternal) {
+      encryptionCalls.push({
+        method: getEncryptionMethod(input.fhevmInfo.bits),
+        param: params[handleIndex].name,
+      });
+      callArgs.push(`encrypted.handles[${handleIndex}]`);
+      handleIndex++;
+    } else if (input.name === 'inputProof' && externalInputs.length > 0) {
+      callArgs.push('encrypted.inputProof');
+    } else {
+      callArgs.push(getPlaceholder(input));
+    }
+  }
+
+  const boundaries = externalInputs.map((input) =>
+    getBoundaryValues(input.fhevmInfo as FHEVMTypeInfo)
+  );
+  const cases: WriteCase[] =
+    externalInputs.length === 0
+      ? []
+      : [
+          {
+            title: 'accepts zero values',
+            pending: false,
+            calls: [boundaries.map((values) => values.zero)],
+            expectation: 'assert the state after sending zero values',
+          },
+          {
+            title: 'accepts max values',
+            pending: false,
+            calls: [boundaries.map((values) => values.max)],
+            expectation: 'assert the state after sending max values',
+          },
+        ];
+
+  // Arithmetic on encrypted integers wraps instead of reverting
+  if (boundaries.some((values) => values.step !== null)) {
+    cases.push(getOverflowCase(fn, boundaries, readers));
+  }
+
+  return {
+    ...naming,
+    skip: false,
+    params,
+    encryptionCalls,
+    callArgs,
+    cases,
+  };
+}
+
+/**
+ * Overflow case, left pending since the ABI can't tell a setter from an accumulator.
+ * Only functions named after arithmetic with a single reader of their input type are asserted
+ */
+function getOverflowCase(
+  fn: ParsedFunction,
+  boundaries: BoundaryValues[],
+  readers: Reader[]
+): WriteCase {
+  const info = fn.inputs.find((input) => input.fhevmInfo?.isExternal)?.fhevmInfo as FHEVMTypeInfo;
+  const { max, step } = boundaries[0];
+  const calls = [
+    boundaries.map((values) => values.max),
+    boundaries.map((values) => values.step ?? values.max),
+  ];
+  const matching = readers.filter(
+    (reader) => reader.fhevmTypeName === info.fhevmTypeName && reader.args.length === 0
+  );
+
+  if (
+    boundaries.length !== 1 ||
+    step === null ||
+    matching.length !== 1 ||
+    !ARITHMETIC_NAME.test(fn.name)
+  ) {
+    return {
+      title: 'wraps on overflow',
+      pending: true,
+      calls,
+      expectation:
+        'read back the updated value, additive updates wrap around so max + 1 leaves it unchanged',
+    };
+  }
+
+  return {
+    title: 'wraps on overflow',
+    pending: false,
+    calls,
+    before: matching[0].helperName,
+    expectation: `Additive updates wrap around modulo 2^${info.bits}`,
+    assertion: `expect(await ${matching[0].helperName}()).to.equal((before + ${max} + ${step}) % 2n ** ${info.bits}n);`,
+  };
+}
+
+/**
+ * How a function is called and labelled, by signature for overloads
+ */
+function getNaming(fn: ParsedFunction, overloaded: Set<string>) {
+  const isOverloaded = overloaded.has(fn.name);
+
+  return {
+    title: isOverloaded ? getDisplaySignature(fn) : fn.name,
+    callee: isOverloaded ? `contract["${getFunctionSignature(fn)}"]` : `contract.${fn.name}`,
+    helperName: getMethodName(fn, overloaded),
+  };
+}
+
+/**
+ * Type info of the encrypted value a view returns, if it returns exactly one
+ */
+function getEncryptedOutput(fn: ParsedFunction): FHEVMTypeInfo | null {
+  const output = fn.outputs[0];
+  if (fn.outputs.length !== 1 || !output.fhevmInfo || output.fhevmInfo.isExternal) {
+    return null;
+  }
+  return output.fhevmInfo;
+}
+
+/**
+ * Cleartext type a helper takes for an encrypted input
+ */
+function getClearType(info: FHEVMTypeInfo): string {
+  switch (info.fhevmTypeName) {
+    case 'ebool':
+      return 'boolean';
+    case 'eaddress':
+      return 'string';
+    default:
+      return 'bigint';
+  }
+}
+
+/**
+ * Placeholder argument for a plain parameter
+ */
+function getPlaceholder(param: ParsedParameter): string {
+  if (param.fhevmInfo || param.type === 'bytes32') {
+    return 'ethers.ZeroHash';
+  }
+  if (/^u?int\d*$/.test(param.type)) {
+    return '1n';
+  }
+
+  const fixedBytes = param.type.match(/^bytes(\d+)$/);
+  if (fixedBytes) {
+    return `ethers.zeroPadValue("0x", ${fixedBytes[1]})`;
+  }
+
+  switch (param.type) {
+    case 'bool':
+      return 'true';
+    case 'address':
+      return 'signers[0].address';
+    case 'string':
+      return '""';
+    default:
+      return '"0x"';
+  }
+}
@@ -94,6 +94,9 @@ export interface ParsedParameter {
   type: string // ABI type (bytes32, uint256, address, etc.)
   internalType?: string // Solidity type (euint32, externalEuint32, struct Foo, etc.)
   fhevmInfo?: FHEVMTypeInfo // Only present if this is an FHEVM type
+  components?: ParsedParameter[] // Struct/tuple members
+  arrayItem?: ParsedParameter // Element type of T[] and T[n]
+  arrayLength?: number // Only present for fixed-size arrays
 }
 
 /**
@@ -107,6 +110,46 @@ export interface ParsedFunction {
   stateMutability: 'pure' | 'view' | 'nonpayable' | 'payable' // State mutability
 }
 
+/**
+ * Parsed ABI Event Parameter
+ */
+export interface ParsedEventParameter extends ParsedParameter {
+  indexed: boolean // Stored in a topic rather than in the log data
+}
+
+/**
+ * Parsed ABI Event
+ * Extracted from contract ABI
+ */
+export interface ParsedEvent {
+  name: string // Event name
+  inputs: ParsedEventParameter[] // Event fields, encrypted handles carry fhevmInfo
+  anonymous: boolean // Emitted without the signature topic
+}
+
+/**
+ * Parsed ABI Custom Error
+ * Extracted from contract ABI
+ */
+export interface ParsedError {
+  name: string // Error name
+  inputs: ParsedParameter[] // Error arguments
+}
+
+/**
+ * Public Decryption Flow
+ * A request function asking the decryption oracle to decrypt handles,
+ * and the callback the oracle calls with the cleartexts
+ */
+export interface DecryptionFlow {
+  request: ParsedFunction // Function submitting the decryption request
+  callback: ParsedFunction // Function the oracle calls with the cleartexts
+  cleartexts: ParsedParameter[] // Callback parameters holding decrypted values
+  encodedCleartexts?: ParsedParameter // bytes parameter holding all cleartexts ABI-encoded, instead of cleartexts
+  requestEvent?: ParsedEvent // Event carrying the request id, when there is one
+  requestIdField?: string // Name of the request id field of requestEvent
+}
+
 /**
  * Parsed Contract
  * Complete contract ABI with metadata
@@ -115,4 +158,29 @@ export interface ParsedContract {
   name: string // Contract name
   address: string // Deployed contract address
   abi: ParsedFunction[] // Parsed functions
+  events: ParsedEvent[] // Parsed events
+  errors: ParsedError[] // Parsed custom errors
+}
+
+/**
+ * ABI Change
+ * A function or event added, removed or changed between two versions of a contract
+ */
+export interface AbiChange {
+  kind: 'function' | 'event'
+  change: 'added' | 'removed' | 'changed'
+  signature: string // Display signature, of the new version unless removed
+  previousSignature?: string // Signature before the change, when it differs
+  breaking: boolean // Existing callers, tasks or listeners stop working
+  fhe: boolean // Involves encrypted types
+  details: AbiChangeDetail[] // What changed, for changed entries
+}
+
+/**
+ * One difference inside a changed function or event
+ */
+export interface AbiChangeDetail {
+  message: string // e.g. "amount: externalEuint32 → externalEuint64 (encrypted width 32 → 64 bits)"
+  breaking: boolean
+  fhe: boolean
 }
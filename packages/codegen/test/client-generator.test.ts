@@ -0,0 +1,113 @@
+/**
+ * Client Generator Tests
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { parseContractAbi } from '../src/parser.js';
+import { generateClient } from '../src/client-generator.js';
+import type { Abi } from 'abitype';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+function loadAbi(filename: string): Abi {
+  const path = join(__dirname, '../../test', filename);
+  const content = readFileSync(path, 'utf-8');
+  return JSON.parse(content) as Abi;
+}
+
+describe('Client Generator', () => {
+  it('should generate a client class per contract', () => {
+    const abi = loadAbi('FHECounter.abi.json');
+    const code = generateClient('FHECounter', parseContractAbi(abi));
+
+    assert.ok(code.includes('export class FHECounterClient'), 'Should name the class after the contract');
+    assert.ok(
+      code.includes("import type { FhevmInstance } from '@zama-fhe/relayer-sdk/web';"),
+      'Should import the relayer SDK instance type'
+    );
+    assert.ok(
+      code.includes("'function increment(bytes32 inputEuint32, bytes inputProof)'"),
+      'Should embed a human-readable ABI'
+    );
+  });
+
+  it('should take plain values for external inputs and encrypt them', () => {
+    const abi = loadAbi('FHECounter.abi.json');
+    const code = generateClient('FHECounter', parseContractAbi(abi));
+
+    assert.ok(
+      code.includes('async increment(inputEuint32: bigint | number): Promise<ContractTransactionReceipt | null>'),
+      'Should accept a plain number without the input proof'
+    );
+    assert.ok(code.includes('input.add32(inputEuint32);'), 'Should encrypt the value');
+    assert.ok(
+      code.includes(".send(encrypted.handles[0], encrypted.inputProof);"),
+      'Should pass the handle and input proof'
+    );
+  });
+
+  it('should add decrypt helpers for encrypted view results', () => {
+    const abi = loadAbi('FHECounter.abi.json');
+    const code = generateClient('FHECounter', parseContractAbi(abi));
+
+    assert.ok(code.includes('async getCount(): Promise<string>'), 'Should return the handle');
+    assert.ok(code.includes('async decryptGetCount(): Promise<bigint>'), 'Should add decryptGetCount()');
+    assert.ok(code.includes('private async userDecrypt(handle: string)'), 'Should add userDecrypt()');
+    assert.ok(
+      !code.includes('decryptConfidentialProtocolId'),
+      'Should not add decrypt helpers for clear results'
+    );
+  });
+
+  it('should encrypt values nested in struct and array arguments', () => {
+    const abi = loadAbi('OrderBook.abi.json');
+    const code = generateClient('OrderBook', parseContractAbi(abi));
+
+    assert.ok(code.includes('function collectEncrypted('), 'Should include the JSON helpers');
+    assert.ok(
+      code.includes('async placeOrder(order: { price: bigint | number; amount: bigint | number; isBid: boolean })'),
+      'Should type struct members'
+    );
+    assert.ok(
+      code.includes("'function placeOrder(tuple(bytes32 price, bytes32 amount, bool isBid) order, bytes inputProof)'"),
+      'Should expand tuples in the ABI'
+    );
+    assert.ok(
+      code.includes('async batchDeposit(amounts: Array<bigint | number>, recipient: string)'),
+      'Should type arrays'
+    );
+    assert.ok(code.includes('.send(...args, encrypted.inputProof);'), 'Should spread the filled arguments');
+  });
+
+  it('should use the given SDK import', () => {
+    const abi = loadAbi('FHECounter.abi.json');
+    const code = generateClient('FHECounter', parseContractAbi(abi), {
+      sdkImport: '@zama-fhe/relayer-sdk/node',
+    });
+
+    assert.ok(code.includes("from '@zama-fhe/relayer-sdk/node';"));
+  });
+
+  it('should give overloads distinct methods', () => {
+    const abi = loadAbi('ConfidentialToken.abi.json');
+    const code = generateClient('ConfidentialToken', parseContractAbi(abi));
+
+    assert.ok(code.includes('async transferAddressExternalEuint64(to: string, amount: bigint | number)'));
+    assert.ok(code.includes('async transferAddressEuint64(to: string, amount: string)'));
+    assert.ok(code.includes("getFunction('transfer(address,bytes32,bytes)')"), 'Should pick overloads by signature');
+    assert.ok(code.includes("getFunction('balanceOf')"));
+  });
+
+  it('should take the ether sent to payable methods as a last argument', () => {
+    const abi = loadAbi('ConfidentialToken.abi.json');
+    const code = generateClient('ConfidentialToken', parseContractAbi(abi));
+
+    assert.ok(code.includes('async deposit(to: string, value: bigint = 0n)'));
+    assert.ok(code.includes("getFunction('deposit').send(to, { value })"));
+  });
+});
@@ -13,6 +13,7 @@ import {
   fheTypeNameFromId,
   encryptionBitsFromFheTypeName,
   encryptionBitsFromFheTypeId,
+  getFheTypeNames,
 } from '../src/detector.js'
 
 describe('FHEVM Type Detector', () => {
@@ -154,5 +155,18 @@ describe('FHEVM Type Detector', () => {
       assert.strictEqual(encryptionBitsFromFheTypeId(7), 160) // eaddress
       assert.strictEqual(encryptionBitsFromFheTypeId(8), 256) // euint256
     })
+
+    it('should list all type names in ID order', () => {
+      assert.deepStrictEqual(getFheTypeNames(), [
+        'ebool',
+        'euint8',
+        'euint16',
+        'euint32',
+        'euint64',
+        'euint128',
+        'eaddress',
+        'euint256',
+      ])
+    })
   })
 })
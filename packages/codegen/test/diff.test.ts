@@ -0,0 +1,150 @@
+/**
+ * ABI Diff Tests
+ */
+
+import assert from 'node:assert';
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import type { Abi } from 'abitype';
+import { diffContractAbis, formatAbiDiffMarkdown, hasBreakingChanges } from '../src/diff.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+function loadAbi(filename: string): Abi {
+  const path = join(__dirname, '../../test', filename);
+  const content = readFileSync(path, 'utf-8');
+  return JSON.parse(content) as Abi;
+}
+
+/**
+ * FHECounter with increment taking a euint64, decrement removed, reset added
+ * and confidentialProtocolId returning an encrypted value
+ */
+function upgradeCounter(abi: Abi): Abi {
+  const upgraded = abi
+    .filter((item) => item.type !== 'function' || item.name !== 'decrement')
+    .map((item): Abi[number] => {
+      if (item.type === 'function' && item.name === 'increment') {
+        const [amount, ...rest] = item.inputs;
+        return { ...item, inputs: [{ ...amount, internalType: 'externalEuint64' }, ...rest] };
+      }
+      if (item.type === 'function' && item.name === 'confidentialProtocolId') {
+        return { ...item, outputs: [{ internalType: 'euint32', name: '', type: 'bytes32' }] };
+      }
+      return item;
+    });
+
+  return [
+    ...upgraded,
+    { type: 'function', name: 'reset', inputs: [], outputs: [], stateMutability: 'nonpayable' },
+  ];
+}
+
+describe('ABI Diff', () => {
+  const before = loadAbi('FHECounter.abi.json');
+
+  it('should report nothing for identical ABIs', () => {
+    const changes = diffContractAbis(before, structuredClone(before));
+
+    assert.deepStrictEqual(changes, []);
+    assert.ok(formatAbiDiffMarkdown('FHECounter', changes).includes('No ABI changes.'));
+  });
+
+  it('should report added, removed and changed functions', () => {
+    const changes = diffContractAbis(before, upgradeCounter(before));
+    const summary = changes.map((change) => `${change.change} ${change.signature}`);
+
+    assert.deepStrictEqual(summary, [
+      'changed confidentialProtocolId()',
+      'removed decrement(externalEuint32)',
+      'changed increment(externalEuint64)',
+      'added reset()',
+    ]);
+    assert.ok(hasBreakingChanges(changes));
+    assert.strictEqual(changes.find((change) => change.change === 'added')?.breaking, false);
+  });
+
+  it('should single out encrypted width changes', () => {
+    const changes = diffContractAbis(before, upgradeCounter(before));
+    const increment = changes.find((change) => change.signature === 'increment(externalEuint64)');
+
+    assert.ok(increment);
+    assert.strictEqual(increment.previousSignature, 'increment(externalEuint32)');
+    assert.ok(increment.breaking && increment.fhe);
+    assert.deepStrictEqual(
+      increment.details.map((detail) => detail.message),
+      ['inputEuint32: externalEuint32 → externalEuint64 (encrypted width 32 → 64 bits)']
+    );
+  });
+
+  it('should flag outputs becoming encrypted', () => {
+    const changes = diffContractAbis(before, upgradeCounter(before));
+    const protocolId = changes.find((change) => change.signature === 'confidentialProtocolId()');
+
+    assert.ok(protocolId?.fhe);
+    assert.strictEqual(
+      protocolId.details[0].message,
+      'returns[0]: uint256 → euint32 (now encrypted, callers must decrypt it)'
+    );
+  });
+
+  it('should compare struct members and event fields', () => {
+    const struct = (priceType: string) => ({
+      name: 'order',
+      type: 'tuple',
+      internalType: 'struct OrderBook.Order',
+      components: [
+        { name: 'price', type: 'bytes32', internalType: priceType },
+        { name: 'isBid', type: 'bool', internalType: 'bool' },
+      ],
+    });
+    const abi = (priceType: string, indexed: boolean) =>
+      [
+        {
+          type: 'function',
+          name: 'place',
+          inputs: [struct(priceType)],
+          outputs: [],
+          stateMutability: 'nonpayable',
+        },
+        {
+          type: 'event',
+          name: 'Placed',
+          anonymous: false,
+          inputs: [{ name: 'trader', type: 'address', internalType: 'address', indexed }],
+        },
+      ] as Abi;
+
+    const changes = diffContractAbis(abi('externalEuint64', true), abi('externalEuint128', false));
+
+    assert.deepStrictEqual(
+      changes.map((change) => [change.kind, change.details.map((detail) => detail.message)]),
+      [
+        [
+          'function',
+          ['order.price: externalEuint64 → externalEuint128 (encrypted width 64 → 128 bits)'],
+        ],
+        ['event', ['trader: no longer indexed']],
+      ]
+    );
+  });
+
+  it('should render markdown grouped by breaking changes', () => {
+    const markdown = formatAbiDiffMarkdown(
+      'FHECounter',
+      diffContractAbis(before, upgradeCounter(before))
+    );
+
+    assert.ok(markdown.startsWith('## ABI changes: FHECounter'));
+    assert.ok(markdown.includes('**3 breaking changes**, 3 to encrypted types'));
+    assert.ok(
+      markdown.includes(
+        '- **Function changed** `increment(externalEuint32)` → `increment(externalEuint64)` _(FHE)_'
+      )
+    );
+    assert.ok(markdown.includes('### Compatible\n\n- **Function added** `reset()`'));
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Encryption Helper Tests
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { getValueRange, parseEncryptedValue } from '../src/encryption.js';
+
+describe('Encryption Helpers', () => {
+  it('should describe the range of each type', () => {
+    assert.strictEqual(getValueRange('euint8'), '0 to 255');
+    assert.strictEqual(getValueRange('ebool'), 'true or false');
+    assert.strictEqual(getValueRange('eaddress'), 'a checksummed address');
+  });
+
+  it('should reject integers outside the bit width', () => {
+    assert.strictEqual(parseEncryptedValue('euint8', '255'), 255n);
+    assert.strictEqual(parseEncryptedValue('euint8', 7), 7n);
+    assert.throws(() => parseEncryptedValue('euint8', '300'), /euint8 value out of range: 300, expected 0 to 255/);
+    assert.throws(() => parseEncryptedValue('euint16', -1), /out of range/);
+    assert.throws(() => parseEncryptedValue('euint32', '1.5'), /Invalid euint32 value/);
+  });
+
+  it('should parse large integers without losing precision', () => {
+    const max = (1n << 256n) - 1n;
+    assert.strictEqual(parseEncryptedValue('euint256', max.toString()), max);
+    assert.strictEqual(parseEncryptedValue('euint128', '0xffffffffffffffffffffffffffffffff'), (1n << 128n) - 1n);
+    assert.throws(() => parseEncryptedValue('euint128', (1n << 128n).toString()), /out of range/);
+    assert.throws(() => parseEncryptedValue('euint64', 2 ** 64), /Invalid euint64 value/);
+  });
+
+  it('should accept true and false for ebool', () => {
+    assert.strictEqual(parseEncryptedValue('ebool', 'true'), true);
+    assert.strictEqual(parseEncryptedValue('ebool', false), false);
+    assert.throws(() => parseEncryptedValue('ebool', 'yes'), /expected true or false/);
+  });
+
+  it('should accept checksummed addresses for eaddress', () => {
+    const address = '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed';
+    assert.strictEqual(parseEncryptedValue('eaddress', address.toLowerCase()), address);
+    assert.throws(() => parseEncryptedValue('eaddress', '0x5AAeb6053F3E94C9b9A09f33669435E7Ef1BeAed'), /Invalid eaddress/);
+    assert.throws(() => parseEncryptedValue('eaddress', '0x1234'), /Invalid eaddress/);
+  });
+});
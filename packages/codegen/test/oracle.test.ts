@@ -0,0 +1,155 @@
+/**
+ * Decryption Oracle Detector Tests
+ */
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert'
+import { detectDecryptionFlows, isDecryptionCallback } from '../src/oracle.js'
+import { parseContractAbi, parseContractEvents } from '../src/parser.js'
+import type { Abi } from 'abitype'
+import { readFileSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+import { dirname, join } from 'node:path'
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = dirname(__filename)
+
+function loadAbi(filename: string): Abi {
+  const path = join(__dirname, '../../test', filename)
+  const content = readFileSync(path, 'utf-8')
+  return JSON.parse(content) as Abi
+}
+
+describe('Decryption Oracle Detector', () => {
+  const abi = loadAbi('RevealAuction.abi.json')
+  const functions = parseContractAbi(abi)
+  const events = parseContractEvents(abi)
+
+  describe('isDecryptionCallback', () => {
+    it('should detect callbacks taking a request id and signatures or a proof', () => {
+      const callbacks = functions.filter(isDecryptionCallback).map((fn) => fn.name)
+
+      assert.deepStrictEqual(callbacks, ['callbackDecryptHighestBid', 'revealWinnerCallback'])
+    })
+
+    it('should not treat functions without a leading request id as callbacks', () => {
+      const [fn] = parseContractAbi([
+        {
+          type: 'function',
+          name: 'onTransfer',
+          stateMutability: 'nonpayable',
+          inputs: [{ name: 'amount', type: 'uint256', internalType: 'uint256' }],
+          outputs: [],
+        },
+      ])
+
+      assert.strictEqual(isDecryptionCallback(fn), false)
+    })
+  })
+
+  describe('detectDecryptionFlows', () => {
+    it('should pair requests and callbacks about the same subject', () => {
+      const flows = detectDecryptionFlows(functions, events)
+
+      assert.deepStrictEqual(
+        flows.map((flow) => [flow.request.name, flow.callback.name]),
+        [
+          ['requestDecryptHighestBid', 'callbackDecryptHighestBid'],
+          ['requestWinnerReveal', 'revealWinnerCallback'],
+        ]
+      )
+    })
+
+    it('should keep only the cleartext callback parameters', () => {
+      const [bidFlow, winnerFlow] = detectDecryptionFlows(functions, events)
+
+      assert.deepStrictEqual(bidFlow.cleartexts.map((param) => param.name), ['highestBid'])
+      assert.deepStrictEqual(winnerFlow.cleartexts.map((param) => param.name), ['winner'])
+    })
+
+    it('should find the event announcing the request id', () => {
+      const [bidFlow, winnerFlow] = detectDecryptionFlows(functions, events)
+
+      assert.strictEqual(bidFlow.requestEvent?.name, 'HighestBidDecryptionRequested')
+      assert.strictEqual(bidFlow.requestIdField, 'requestId')
+      assert.strictEqual(winnerFlow.requestEvent, undefined)
+    })
+
+    it('should pair a single request and callback with unrelated names through its event', () => {
+      const abi: Abi = [
+        {
+          type: 'function',
+          name: 'requestTally',
+          stateMutability: 'nonpayable',
+          inputs: [],
+          outputs: [],
+        },
+        {
+          type: 'function',
+          name: 'onResults',
+          stateMutability: 'nonpayable',
+          inputs: [
+            { name: 'requestId', type: 'uint256', internalType: 'uint256' },
+            { name: 'yes', type: 'uint32', internalType: 'uint32' },
+            { name: 'no', type: 'uint32', internalType: 'uint32' },
+          ],
+          outputs: [],
+        },
+        {
+          type: 'event',
+          name: 'TallyRequested',
+          anonymous: false,
+          inputs: [{ name: 'requestId', type: 'uint256', internalType: 'uint256', indexed: false }],
+        },
+      ]
+      const flows = detectDecryptionFlows(parseContractAbi(abi), parseContractEvents(abi))
+
+      assert.strictEqual(flows.length, 1)
+      assert.strictEqual(flows[0].request.name, 'requestTally')
+      assert.strictEqual(flows[0].requestEvent?.name, 'TallyRequested')
+      assert.deepStrictEqual(flows[0].cleartexts.map((param) => param.name), ['yes', 'no'])
+    })
+
+    it('should not guess the request of a callback without a matching name or event', () => {
+      const flows = detectDecryptionFlows(
+        parseContractAbi([
+          {
+            type: 'function',
+            name: 'decryptBalance',
+            stateMutability: 'nonpayable',
+            inputs: [],
+            outputs: [],
+          },
+          {
+            type: 'function',
+            name: 'onResults',
+            stateMutability: 'nonpayable',
+            inputs: [
+              { name: 'requestId', type: 'uint256', internalType: 'uint256' },
+              { name: 'yes', type: 'uint32', internalType: 'uint32' },
+            ],
+            outputs: [],
+          },
+        ])
+      )
+
+      assert.deepStrictEqual(flows, [])
+    })
+
+    it('should keep the encoded cleartexts of callbacks taking them as bytes', () => {
+      const abi = loadAbi('PublicCounter.abi.json')
+      const [flow] = detectDecryptionFlows(parseContractAbi(abi), parseContractEvents(abi))
+
+      assert.strictEqual(flow.request.name, 'requestDecryptCount')
+      assert.strictEqual(flow.callback.name, 'callbackDecryptCount')
+      assert.strictEqual(flow.encodedCleartexts?.name, 'cleartexts')
+      assert.deepStrictEqual(flow.cleartexts, [])
+    })
+
+    it('should find no flows in contracts without callbacks', () => {
+      const flows = detectDecryptionFlows(parseContractAbi(loadAbi('FHECounter.abi.json')))
+
+      assert.deepStrictEqual(flows, [])
+    })
+  })
+})
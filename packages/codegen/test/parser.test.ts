@@ -4,7 +4,18 @@
 
 import { describe, it } from 'node:test'
 import assert from 'node:assert'
-import { parseContractAbi } from '../src/parser.js'
+import {
+  getDisplaySignature,
+  getFunctionSignature,
+  getMethodName,
+  getOverloadedNames,
+  getTypeIdentifier,
+  hasExternalInput,
+  parseContract,
+  parseContractAbi,
+  parseContractErrors,
+  parseContractEvents,
+} from '../src/parser.js'
 import type { Abi } from 'abitype'
 import { readFileSync } from 'node:fs'
 import { fileURLToPath } from 'node:url'
@@ -76,4 +87,121 @@ describe('ABI Parser', () => {
     assert.strictEqual(output.type, 'bytes32', 'Output type should be bytes32')
     assert.strictEqual(output.internalType, 'euint32', 'Output internalType should be euint32')
   })
+
+  it('should parse struct components with nested FHEVM types', () => {
+    const abi = loadAbi('OrderBook.abi.json')
+    const functions = parseContractAbi(abi)
+    const placeOrder = functions.find((f) => f.name === 'placeOrder')
+
+    const order = placeOrder!.inputs[0]
+    assert.strictEqual(order.type, 'tuple')
+    assert.strictEqual(order.internalType, 'struct OrderBook.Order')
+    assert.strictEqual(order.fhevmInfo, undefined, 'Struct itself is not an FHEVM type')
+    assert.deepStrictEqual(
+      order.components!.map((c) => c.name),
+      ['price', 'amount', 'isBid'],
+      'Should keep struct member names'
+    )
+    assert.strictEqual(order.components![0].fhevmInfo?.fhevmTypeName, 'euint64')
+    assert.strictEqual(order.components![0].fhevmInfo?.isExternal, true)
+    assert.strictEqual(order.components![2].fhevmInfo, undefined)
+    assert.strictEqual(hasExternalInput(order), true)
+  })
+
+  it('should parse arrays of encrypted handles', () => {
+    const abi = loadAbi('OrderBook.abi.json')
+    const functions = parseContractAbi(abi)
+    const batchDeposit = functions.find((f) => f.name === 'batchDeposit')
+
+    const amounts = batchDeposit!.inputs[0]
+    assert.strictEqual(amounts.type, 'bytes32[]')
+    assert.strictEqual(amounts.arrayLength, undefined, 'Dynamic array has no length')
+    assert.strictEqual(amounts.arrayItem?.type, 'bytes32')
+    assert.strictEqual(amounts.arrayItem?.internalType, 'externalEuint32')
+    assert.strictEqual(amounts.arrayItem?.fhevmInfo?.fhevmTypeName, 'euint32')
+    assert.strictEqual(hasExternalInput(amounts), true)
+    assert.strictEqual(hasExternalInput(batchDeposit!.inputs[1]), false)
+  })
+
+  it('should parse fixed-size arrays and encrypted struct outputs', () => {
+    const abi = loadAbi('OrderBook.abi.json')
+    const functions = parseContractAbi(abi)
+
+    const range = functions.find((f) => f.name === 'setPriceRange')!.inputs[0]
+    assert.strictEqual(range.arrayLength, 2)
+    assert.strictEqual(range.arrayItem?.type, 'uint256')
+    assert.strictEqual(hasExternalInput(range), false)
+
+    const output = functions.find((f) => f.name === 'getOrder')!.outputs[0]
+    assert.strictEqual(output.components![1].fhevmInfo?.fhevmTypeName, 'euint64')
+    assert.strictEqual(output.components![1].fhevmInfo?.isExternal, false)
+  })
+
+  it('should parse events with indexed and encrypted fields', () => {
+    const abi = loadAbi('OrderBook.abi.json')
+    const events = parseContractEvents(abi)
+
+    assert.deepStrictEqual(events.map((e) => e.name), ['OrderPlaced', 'OrderCancelled'])
+
+    const orderPlaced = events[0]
+    assert.strictEqual(orderPlaced.anonymous, false)
+    assert.strictEqual(orderPlaced.inputs[0].indexed, true)
+    assert.strictEqual(orderPlaced.inputs[2].indexed, false)
+    assert.strictEqual(orderPlaced.inputs[2].fhevmInfo?.fhevmTypeName, 'euint64')
+    assert.strictEqual(orderPlaced.inputs[0].fhevmInfo, undefined)
+  })
+
+  it('should parse custom errors', () => {
+    const errors = parseContractErrors(loadAbi('OrderBook.abi.json'))
+
+    assert.strictEqual(errors.length, 1)
+    assert.strictEqual(errors[0].name, 'InsufficientBalance')
+    assert.deepStrictEqual(errors[0].inputs.map((i) => i.name), ['available', 'required'])
+  })
+
+  it('should parse a complete contract', () => {
+    const contract = parseContract('OrderBook', '0x0000000000000000000000000000000000000001', loadAbi('OrderBook.abi.json'))
+
+    assert.strictEqual(contract.name, 'OrderBook')
+    assert.strictEqual(contract.abi.length, 4, 'Should keep only functions in abi')
+    assert.strictEqual(contract.events.length, 2)
+    assert.strictEqual(contract.errors.length, 1)
+  })
+
+  it('should tell overloads apart by signature', () => {
+    const functions = parseContractAbi(loadAbi('ConfidentialToken.abi.json'))
+    const overloaded = getOverloadedNames(functions)
+    const [transferExternal, transferHandle, balanceOf] = functions
+
+    assert.deepStrictEqual([...overloaded], ['transfer'])
+    assert.strictEqual(getFunctionSignature(transferExternal), 'transfer(address,bytes32,bytes)')
+    assert.strictEqual(getFunctionSignature(transferHandle), 'transfer(address,bytes32)')
+    assert.strictEqual(getDisplaySignature(transferExternal), 'transfer(address,externalEuint64)')
+    assert.strictEqual(getDisplaySignature(transferHandle), 'transfer(address,euint64)')
+    assert.strictEqual(getMethodName(transferExternal, overloaded), 'transferAddressExternalEuint64')
+    assert.strictEqual(getMethodName(balanceOf, overloaded), 'balanceOf')
+  })
+
+  it('should keep array lengths apart in overload names', () => {
+    const abi = ['uint256[2]', 'uint256[]'].map((type) => ({
+      type: 'function',
+      name: 'setAll',
+      inputs: [{ name: 'values', type, internalType: type }],
+      outputs: [],
+      stateMutability: 'nonpayable',
+    })) as unknown as Abi
+    const functions = parseContractAbi(abi)
+    const overloaded = getOverloadedNames(functions)
+
+    assert.strictEqual(getMethodName(functions[0], overloaded), 'setAllUint256Array2')
+    assert.strictEqual(getMethodName(functions[1], overloaded), 'setAllUint256Array')
+    assert.strictEqual(getTypeIdentifier('uint8[3][]'), 'uint8Array3Array')
+  })
+
+  it('should expand tuples in signatures', () => {
+    const placeOrder = parseContractAbi(loadAbi('OrderBook.abi.json'))[0]
+
+    assert.strictEqual(getFunctionSignature(placeOrder), 'placeOrder((bytes32,bytes32,bool),bytes)')
+    assert.strictEqual(getDisplaySignature(placeOrder), 'placeOrder(OrderBook.Order)')
+  })
 })
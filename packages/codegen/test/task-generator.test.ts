@@ -4,10 +4,16 @@
 
 import { describe, it } from 'node:test';
 import assert from 'node:assert';
-import { parseContractAbi } from '../src/parser.js';
-import { generateTasks } from '../src/task-generator.js';
+import { parseContractAbi, parseContractErrors, parseContractEvents } from '../src/parser.js';
+import {
+  generateTasks,
+  getDecryptTaskName,
+  getTaskName,
+  getValueParamName,
+} from '../src/task-generator.js';
 import type { Abi } from 'abitype';
-import { readFileSync } from 'node:fs';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
 import { fileURLToPath } from 'node:url';
 import { dirname, join } from 'node:path';
 
@@ -75,6 +81,22 @@ describe('Task Generator', () => {
     assert.ok(code.includes('encrypted.inputProof'), 'Should use inputProof');
   });
 
+  it('should check encrypted plaintexts against the bit width of their type', () => {
+    const abi = loadAbi('FHECounter.abi.json');
+    const functions = parseContractAbi(abi);
+    const code = generateTasks('FHECounter', functions);
+
+    assert.ok(code.includes('function parseEncryptedArg('), 'Should add the validation helper');
+    assert.ok(
+      code.includes('.add32(parseEncryptedArg(ethers, "inputeuint32", taskArgs.inputeuint32, "euint32"))'),
+      'Should validate before encrypting'
+    );
+    assert.ok(
+      code.includes('"euint32 value, 0 to 4294967295 (will be encrypted)"'),
+      'Should describe the accepted range'
+    );
+  });
+
   it('should not add encryption for functions without external inputs', () => {
     const abi = loadAbi('FHECounter.abi.json');
     const functions = parseContractAbi(abi);
@@ -146,4 +168,238 @@ describe('Task Generator', () => {
     assert.ok(code.includes('/**'), 'Should have JSDoc comments');
     assert.ok(code.includes('* Task:'), 'Should have task documentation');
   });
+
+  it('should take struct arguments as JSON and encrypt nested fields', () => {
+    const abi = loadAbi('OrderBook.abi.json');
+    const functions = parseContractAbi(abi);
+    const code = generateTasks('OrderBook', functions);
+
+    const taskMatch = code.match(/task\("orderbook:placeOrder"[\s\S]+?\.setAction[\s\S]+?\}\);/);
+    assert.ok(taskMatch, 'Should find placeOrder task');
+
+    const taskCode = taskMatch[0];
+    assert.ok(taskCode.includes('addParam("order", "JSON-encoded OrderBook.Order'), 'Should describe JSON struct param');
+    assert.ok(taskCode.includes('JSON.parse(taskArgs.order)'), 'Should decode struct argument');
+    assert.ok(
+      taskCode.includes('{"components":[["order",{"components":[["price",{"encrypt":"add64","type":"euint64"}],["amount",{"encrypt":"add64","type":"euint64"}],["isBid",null]]}]]}'),
+      'Should describe encrypted struct members'
+    );
+    assert.ok(taskCode.includes('contract.placeOrder(...args, encrypted.inputProof)'), 'Should pass decoded args and proof');
+  });
+
+  it('should encrypt each element of encrypted handle arrays', () => {
+    const abi = loadAbi('OrderBook.abi.json');
+    const functions = parseContractAbi(abi);
+    const code = generateTasks('OrderBook', functions);
+
+    const taskMatch = code.match(/task\("orderbook:batchDeposit"[\s\S]+?\.setAction[\s\S]+?\}\);/);
+    assert.ok(taskMatch, 'Should find batchDeposit task');
+
+    const taskCode = taskMatch[0];
+    assert.ok(taskCode.includes('[JSON.parse(taskArgs.amounts), taskArgs.recipient]'), 'Should mix JSON and plain args');
+    assert.ok(taskCode.includes('{"items":{"encrypt":"add32","type":"euint32"}}'), 'Should encrypt array items');
+  });
+
+  it('should decode JSON arguments without encryption when nothing is encrypted', () => {
+    const abi = loadAbi('OrderBook.abi.json');
+    const functions = parseContractAbi(abi);
+    const code = generateTasks('OrderBook', functions);
+
+    const taskMatch = code.match(/task\("orderbook:setPriceRange"[\s\S]+?\.setAction[\s\S]+?\}\);/);
+    assert.ok(taskMatch, 'Should find setPriceRange task');
+
+    const taskCode = taskMatch[0];
+    assert.ok(taskCode.includes('const args = [JSON.parse(taskArgs.range)];'), 'Should decode array argument');
+    assert.ok(!taskCode.includes('createEncryptedInput'), 'Should not encrypt plain arrays');
+    assert.ok(!taskCode.includes('fhevm'), 'Should not need fhevm');
+  });
+
+  it('should add JSON encryption helpers only when needed', () => {
+    const orderBook = generateTasks('OrderBook', parseContractAbi(loadAbi('OrderBook.abi.json')));
+    const counter = generateTasks('FHECounter', parseContractAbi(loadAbi('FHECounter.abi.json')));
+
+    assert.strictEqual(orderBook.match(/function collectEncrypted\(/g)?.length, 1, 'Should add helpers once');
+    assert.ok(orderBook.includes('function fillHandles('), 'Should add fillHandles helper');
+    assert.ok(!counter.includes('collectEncrypted'), 'Should not add helpers for flat inputs');
+  });
+
+  it('should print emitted events with encrypted fields marked', () => {
+    const abi = loadAbi('OrderBook.abi.json');
+    const code = generateTasks('OrderBook', parseContractAbi(abi), {
+      events: parseContractEvents(abi),
+    });
+
+    assert.ok(code.includes('const ENCRYPTED_EVENT_FIELDS: Record<string, string[]> = {"OrderPlaced":["price"]};'), 'Should list encrypted event fields');
+    assert.ok(code.includes('function printEvents('), 'Should add printEvents helper');
+
+    const taskMatch = code.match(/task\("orderbook:placeOrder"[\s\S]+?\.setAction[\s\S]+?\}\);/);
+    assert.ok(taskMatch, 'Should find placeOrder task');
+    assert.ok(taskMatch[0].includes('printEvents(contract, receipt);'), 'Should decode events after the receipt');
+  });
+
+  it('should decode reverts into custom errors', () => {
+    const abi = loadAbi('OrderBook.abi.json');
+    const code = generateTasks('OrderBook', parseContractAbi(abi), {
+      errors: parseContractErrors(abi),
+    });
+
+    assert.ok(code.includes('function reportRevert('), 'Should add reportRevert helper');
+    assert.ok(code.includes('contract.interface.parseError(data)'), 'Should decode revert data with the contract interface');
+    assert.ok(
+      code.includes('const tx = await contract.setPriceRange(...args).catch((error: any) => reportRevert(contract, error));'),
+      'Should catch reverts of transactions'
+    );
+    assert.ok(
+      code.includes('const result = await contract.getOrder(taskArgs.id).catch((error: any) => reportRevert(contract, error));'),
+      'Should catch reverts of view calls'
+    );
+  });
+
+  it('should not add event or error helpers without events or errors', () => {
+    const code = generateTasks('OrderBook', parseContractAbi(loadAbi('OrderBook.abi.json')));
+
+    assert.ok(!code.includes('printEvents'), 'Should not decode events');
+    assert.ok(!code.includes('reportRevert'), 'Should not decode reverts');
+  });
+
+  it('should name overloaded function tasks after their parameter types', () => {
+    const functions = parseContractAbi(loadAbi('ConfidentialToken.abi.json'));
+    const code = generateTasks('ConfidentialToken', functions);
+
+    assert.ok(code.includes('task("confidentialtoken:transfer-address-externalEuint64"'));
+    assert.ok(code.includes('task("confidentialtoken:transfer-address-euint64"'));
+    assert.ok(code.includes('task("confidentialtoken:balanceOf"'), 'Should keep plain names otherwise');
+    assert.ok(
+      code.includes('await contract["transfer(address,bytes32,bytes)"](taskArgs.to, encrypted.handles[0], encrypted.inputProof)'),
+      'Should call overloads by signature'
+    );
+    assert.ok(code.includes('await contract["transfer(address,bytes32)"](taskArgs.to, taskArgs.amount)'));
+
+    assert.strictEqual(
+      getTaskName('ConfidentialToken', functions[1], functions),
+      'confidentialtoken:transfer-address-euint64'
+    );
+    assert.strictEqual(
+      getDecryptTaskName('ConfidentialToken', functions[2], functions),
+      'confidentialtoken:decrypt-balanceOf'
+    );
+  });
+
+  it('should take the ether sent to payable functions as an optional value param', () => {
+    const functions = parseContractAbi(loadAbi('ConfidentialToken.abi.json'));
+    const code = generateTasks('ConfidentialToken', functions);
+    const taskCode = code.slice(code.indexOf('task("confidentialtoken:deposit"'));
+
+    assert.ok(taskCode.includes('.addOptionalParam("value", "Ether to send'), 'Should add a value param');
+    assert.ok(
+      taskCode.includes('await contract.deposit(taskArgs.to, { value: parseValueArg(ethers, taskArgs.value) })'),
+      'Should send the value with the call'
+    );
+    assert.ok(code.includes('function parseValueArg('), 'Should add the value parsing helper');
+    assert.ok(
+      !code.slice(0, code.indexOf('task("confidentialtoken:deposit"')).includes('addOptionalParam'),
+      'Should not add a value param to non-payable functions'
+    );
+
+    const counterCode = generateTasks('FHECounter', parseContractAbi(loadAbi('FHECounter.abi.json')));
+    assert.ok(!counterCode.includes('parseValueArg'), 'Should not add the helper without payable functions');
+  });
+
+  it('should generate public decryption tasks that wait for the oracle callback', () => {
+    const abi = loadAbi('RevealAuction.abi.json');
+    const code = generateTasks('RevealAuction', parseContractAbi(abi), {
+      events: parseContractEvents(abi),
+    });
+    const taskCode = code.slice(code.indexOf('task("revealauction:public-decrypt-requestDecryptHighestBid"'));
+
+    assert.ok(code.includes('async function awaitCallback('), 'Should add the callback helper');
+    assert.ok(taskCode.includes('await contract.requestDecryptHighestBid()'), 'Should submit the request');
+    assert.ok(
+      taskCode.includes('findRequestId(contract, receipt, "HighestBidDecryptionRequested", "requestId")'),
+      'Should read the request id from its event'
+    );
+    assert.ok(code.includes('function findOracleRequest('), 'Should add the oracle request helper');
+
+    const winnerCode = code.slice(code.indexOf('task("revealauction:public-decrypt-requestWinnerReveal"'));
+    assert.ok(
+      winnerCode.includes('const requestId = oracleRequest?.requestId;'),
+      'Should read the request id from the oracle without a request event'
+    );
+    assert.ok(
+      winnerCode.includes('if (requestId === undefined) {'),
+      'Should not wait for a callback without a request id'
+    );
+    assert.ok(
+      taskCode.includes('awaitCallback(hre, contract, "callbackDecryptHighestBid(uint256,uint64,bytes[])"'),
+      'Should wait for the callback by signature'
+    );
+    assert.ok(taskCode.includes("|  highestBid: ' + fulfilment.args[1]"), 'Should print the cleartext');
+    assert.ok(code.includes('task("revealauction:public-decrypt-requestWinnerReveal"'));
+  });
+
+  it('should decode cleartexts passed as bytes with the requested handle types', () => {
+    const abi = loadAbi('PublicCounter.abi.json');
+    const code = generateTasks('PublicCounter', parseContractAbi(abi), {
+      events: parseContractEvents(abi),
+    });
+    const taskCode = code.slice(code.indexOf('task("publiccounter:public-decrypt-requestDecryptCount"'));
+
+    assert.ok(code.includes('function decodeCleartexts('), 'Should add the decoding helper');
+    assert.ok(
+      taskCode.includes('decodeCleartexts(ethers, fulfilment.args[1], oracleRequest.handles)'),
+      'Should decode the cleartexts with the requested handles'
+    );
+    assert.ok(taskCode.includes("|  cleartexts[' + index + ']: "), 'Should print each decoded value');
+    assert.ok(!taskCode.includes('fulfilment.args[2]'), 'Should not print the decryption proof');
+
+    const auctionAbi = loadAbi('RevealAuction.abi.json');
+    const auctionCode = generateTasks('RevealAuction', parseContractAbi(auctionAbi), {
+      events: parseContractEvents(auctionAbi),
+    });
+    assert.ok(!auctionCode.includes('decodeCleartexts'), 'Should not add the helper for typed callbacks');
+  });
+
+  it('should not add oracle helpers without decryption callbacks', () => {
+    const code = generateTasks('FHECounter', parseContractAbi(loadAbi('FHECounter.abi.json')));
+
+    assert.ok(!code.includes('awaitCallback'), 'Should not add the callback helper');
+    assert.ok(!code.includes(':public-decrypt-'), 'Should not add public decryption tasks');
+  });
+
+  it('should render tasks with a project template set, keeping bundled templates it lacks', () => {
+    const templateDir = mkdtempSync(join(tmpdir(), 'zcraft-templates-'));
+    try {
+      mkdirSync(join(templateDir, 'partials'));
+      writeFileSync(join(templateDir, 'partials', 'banner.hbs'), '// {{contractName}} task\n');
+      writeFileSync(
+        join(templateDir, 'helpers.cjs'),
+        'module.exports = { shout: (value) => String(value).toUpperCase() };'
+      );
+      writeFileSync(join(templateDir, 'task.hbs'), '{{> banner}}\ntask("{{taskName}}", "{{shout name}}");');
+
+      const functions = parseContractAbi(loadAbi('FHECounter.abi.json'));
+      const code = generateTasks('FHECounter', functions, { templateDir });
+
+      assert.ok(code.includes('// FHECounter task\ntask("fhecounter:increment", "INCREMENT");'), 'Should use partials and helpers');
+      assert.ok(code.includes('task("fhecounter:decrypt-getCount"'), 'Should fall back to bundled decrypt task template');
+    } finally {
+      rmSync(templateDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should rename the value param when a payable function has a value argument', () => {
+    const [fn] = parseContractAbi([
+      {
+        type: 'function',
+        name: 'fund',
+        stateMutability: 'payable',
+        inputs: [{ name: 'value', type: 'uint256', internalType: 'uint256' }],
+        outputs: [],
+      },
+    ]);
+
+    assert.strictEqual(getValueParamName(fn), 'msgvalue');
+    assert.ok(generateTasks('Vault', [fn]).includes('{ value: parseValueArg(ethers, taskArgs.msgvalue) }'));
+  });
 });
+
@@ -0,0 +1,178 @@
+/**
+ * Test Generator Tests
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert';
+import { parseConstructorInputs, parseContractAbi } from '../src/parser.js';
+import { generateTestScaffold, getBoundaryValues } from '../src/test-generator.js';
+import { detectFHEVMType } from '../src/detector.js';
+import type { FHEVMTypeInfo } from '../src/types.js';
+import type { Abi } from 'abitype';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+function loadAbi(filename: string): Abi {
+  const path = join(__dirname, '../../test', filename);
+  const content = readFileSync(path, 'utf-8');
+  return JSON.parse(content) as Abi;
+}
+
+describe('Test Generator', () => {
+  it('should generate a mocha spec against the FHEVM mock', () => {
+    const abi = loadAbi('FHECounter.abi.json');
+    const code = generateTestScaffold('FHECounter', parseContractAbi(abi));
+
+    assert.ok(
+      code.includes('describe("FHECounter", function () {'),
+      'Should describe the contract'
+    );
+    assert.ok(code.includes('import { expect } from "chai";'), 'Should use chai');
+    assert.ok(code.includes('if (!fhevm.isMock) {'), 'Should skip outside the mock');
+    assert.ok(
+      code.includes('ethers.getContractFactory("FHECounter")'),
+      'Should deploy the contract'
+    );
+  });
+
+  it('should encrypt inputs with boundary values', () => {
+    const abi = loadAbi('FHECounter.abi.json');
+    const code = generateTestScaffold('FHECounter', parseContractAbi(abi));
+
+    assert.ok(code.includes('input.add32(inputEuint32);'), 'Should encrypt the input');
+    assert.ok(
+      code.includes('contract.increment(encrypted.handles[0], encrypted.inputProof)'),
+      'Should call with the handle and input proof'
+    );
+    assert.ok(code.includes('await increment(0n)'), 'Should test zero');
+    assert.ok(code.includes('await increment(2n ** 32n - 1n)'), 'Should test the max value');
+    assert.ok(code.includes('await increment(1n)'), 'Should overflow the max value by one');
+  });
+
+  it('should assert overflow wrapping only for functions named after arithmetic', () => {
+    const abi = loadAbi('FHECounter.abi.json');
+    const code = generateTestScaffold('FHECounter', parseContractAbi(abi));
+
+    assert.ok(code.includes('it("wraps on overflow"'), 'Should test overflow');
+    assert.ok(
+      code.includes('const before = await decryptGetCount();'),
+      'Should read the value before'
+    );
+    assert.ok(
+      code.includes(
+        'expect(await decryptGetCount()).to.equal((before + 2n ** 32n - 1n + 1n) % 2n ** 32n);'
+      ),
+      'Should expect the value to wrap modulo 2^bits'
+    );
+    assert.ok(!code.includes('to.be.lte('), 'Should not emit assertions that always hold');
+  });
+
+  it('should leave overflow pending for setters', () => {
+    const abi = [
+      {
+        type: 'function',
+        name: 'setLimit',
+        inputs: [
+          { name: 'limit', type: 'bytes32', internalType: 'externalEuint32' },
+          { name: 'inputProof', type: 'bytes', internalType: 'bytes' },
+        ],
+        outputs: [],
+        stateMutability: 'nonpayable',
+      },
+      {
+        type: 'function',
+        name: 'getLimit',
+        inputs: [],
+        outputs: [{ name: '', type: 'bytes32', internalType: 'euint32' }],
+        stateMutability: 'view',
+      },
+    ] as const satisfies Abi;
+    const code = generateTestScaffold('Limits', parseContractAbi(abi));
+
+    assert.ok(code.includes('it.skip("wraps on overflow"'), 'Should not assume additive updates');
+    assert.ok(!code.includes('const before ='));
+  });
+
+  it('should deploy with placeholder constructor arguments and leave the initial state pending', () => {
+    const abi = [
+      ...loadAbi('FHECounter.abi.json'),
+      {
+        type: 'constructor',
+        inputs: [{ name: 'owner', type: 'address', internalType: 'address' }],
+        stateMutability: 'nonpayable',
+      },
+    ] as Abi;
+    const code = generateTestScaffold('FHECounter', parseContractAbi(abi), {
+      constructorInputs: parseConstructorInputs(abi),
+    });
+
+    assert.ok(code.includes('contract = await factory.deploy(signers[0].address);'));
+    assert.ok(code.includes('it.skip("decrypts getCount after deployment"'));
+    assert.ok(!code.includes('expect(clearGetCount).to.equal(0n);'));
+
+    const counterAbi = loadAbi('FHECounter.abi.json');
+    const withoutConstructor = generateTestScaffold('FHECounter', parseContractAbi(counterAbi), {
+      constructorInputs: parseConstructorInputs(counterAbi),
+    });
+    assert.ok(withoutConstructor.includes('contract = await factory.deploy();'));
+    assert.ok(withoutConstructor.includes('it("decrypts getCount after deployment"'));
+  });
+
+  it('should leave cases it cannot assert pending', () => {
+    const abi = loadAbi('ConfidentialToken.abi.json');
+    const code = generateTestScaffold('ConfidentialToken', parseContractAbi(abi));
+
+    // balanceOf takes an account, so it's unclear which balance the overflow shows in
+    assert.ok(code.includes('it.skip("wraps on overflow"'));
+    assert.ok(code.includes('it("accepts max values"'));
+    assert.ok(
+      code.includes('it.skip("transfer(address,euint64)"'),
+      'Should skip functions taking handles the caller cannot use'
+    );
+  });
+
+  it('should decrypt encrypted outputs and assert on them', () => {
+    const abi = loadAbi('FHECounter.abi.json');
+    const code = generateTestScaffold('FHECounter', parseContractAbi(abi));
+
+    assert.ok(
+      code.includes(
+        'fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, signers[0])'
+      ),
+      'Should decrypt with the output type'
+    );
+    assert.ok(code.includes('const clearGetCount = await decryptGetCount();'));
+    assert.ok(
+      code.includes('expect(clearGetCount).to.equal(0n);'),
+      'Should expect unset state to be zero'
+    );
+  });
+
+  it('should skip functions taking structs or arrays', () => {
+    const abi = loadAbi('OrderBook.abi.json');
+    const code = generateTestScaffold('OrderBook', parseContractAbi(abi));
+
+    assert.ok(code.includes('it.skip("placeOrder"'));
+    assert.ok(
+      code.includes('const value = await contract.getOrder(1n);'),
+      'Should use placeholders'
+    );
+  });
+
+  it('should derive boundary values from bits', () => {
+    const bits = (type: string) => getBoundaryValues(detectFHEVMType(type) as FHEVMTypeInfo);
+
+    assert.deepStrictEqual(bits('externalEuint8'), {
+      zero: '0n',
+      max: '2n ** 8n - 1n',
+      step: '1n',
+    });
+    assert.deepStrictEqual(bits('externalEuint256').max, '2n ** 256n - 1n');
+    assert.deepStrictEqual(bits('externalEbool'), { zero: 'false', max: 'true', step: null });
+    assert.strictEqual(bits('externalEaddress').step, null);
+  });
+});
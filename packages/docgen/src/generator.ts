@@ -14,10 +14,9 @@ import {
   generateCallGraphSvg,
   generateInheritanceGraphSvg,
 } from './graphs/surya-wrapper.js';
-import {
-  extractFhevmTypes,
-  analyzeFheOperations,
-} from './parsers/contract-analyzer.js';
+import { generateAclFlowGraphSvg, hasAclFlow } from './graphs/acl-graph.js';
+import { extractFhevmTypes } from './parsers/contract-analyzer.js';
+import { analyzeSolidityFile, summarizeFheOperations } from './parsers/solidity-analyzer.js';
 
 /**
  * Generate GitBook-compatible documentation
@@ -73,7 +72,8 @@ async function processContract(
 
   // Extract FHEVM information
   const fhevmTypes = extractFhevmTypes(functions);
-  const fheOperations = await analyzeFheOperations(contract.solPath);
+  const analysis = await analyzeSolidityFile(contract.solPath, contract.name);
+  const fheOperations = analysis ? summarizeFheOperations(analysis) : [];
 
   // Load source code
   const solidityCode = await readFile(contract.solPath, 'utf-8').catch(() => undefined);
@@ -116,6 +116,17 @@ async function processContract(
       // If graph generation fails, continue without graphs
       console.warn(`Warning: Failed to generate graphs for ${contract.name}: ${error instanceof Error ? error.message : String(error)}`);
     }
+
+    // Generate ACL flow graph from the source analysis, independently of surya
+    if (analysis && hasAclFlow(analysis)) {
+      try {
+        const aclFlowSvg = await generateAclFlowGraphSvg(analysis);
+        const aclFlowPath = await saveGraph(config.outputDir, contract.name, 'acl-flow', aclFlowSvg, 'svg');
+        graphs = { ...graphs, aclFlow: aclFlowPath };
+      } catch (error) {
+        console.warn(`Warning: Failed to generate ACL flow graph for ${contract.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
   }
 
   return {
@@ -125,6 +136,7 @@ async function processContract(
     functions,
     fhevmTypes,
     fheOperations,
+    analysis: analysis ?? undefined,
     solidityCode,
     testCode,
     graphs,
@@ -21,7 +21,7 @@ export async function initializeAssetDirectories(outputDir: string): Promise<voi
 export async function saveGraph(
   outputDir: string,
   contractName: string,
-  graphType: 'call-graph' | 'inheritance',
+  graphType: 'call-graph' | 'inheritance' | 'acl-flow',
   content: string,
   format: 'svg' | 'png' | 'dot' = 'svg'
 ): Promise<string> {
@@ -37,6 +37,6 @@ export async function saveGraph(
 /**
  * Get relative path for graph in markdown
  */
-export function getGraphPath(contractName: string, graphType: 'call-graph' | 'inheritance'): string {
+export function getGraphPath(contractName: string, graphType: 'call-graph' | 'inheritance' | 'acl-flow'): string {
   return `../.gitbook/assets/graphs/${contractName}-${graphType}.svg`;
 }
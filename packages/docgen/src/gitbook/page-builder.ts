@@ -6,7 +6,13 @@ import Handlebars from 'handlebars';
 import { readFile } from 'fs/promises';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
-import type { ContractDocumentation, GeneratedPage } from '../types.js';
+import type { ParsedFunction } from '@zcraft/codegen';
+import type {
+  ContractDocumentation,
+  FunctionAnalysis,
+  GeneratedPage,
+  SolidityAnalysis,
+} from '../types.js';
 import { registerHelpers } from '../templates/helpers.js';
 
 // Get __dirname equivalent in ESM
@@ -54,9 +60,14 @@ export async function buildContractPage(
     throw new Error('Template not initialized');
   }
 
-  // Prepare template data
+  // Prepare template data, pairing each function with its source analysis
   const data = {
     ...contract,
+    functions: contract.functions.map((func) => ({
+      ...func,
+      analysis: contract.analysis ? findFunctionAnalysis(contract.analysis, func) : undefined,
+    })),
+    encryptedState: contract.analysis?.stateVariables ?? [],
     contractName: contract.name,
     includeUsageExamples,
   };
@@ -70,6 +81,32 @@ export async function buildContractPage(
   };
 }
 
+/**
+ * Find the source analysis of an ABI function, telling overloads apart by parameter types
+ */
+function findFunctionAnalysis(
+  analysis: SolidityAnalysis,
+  func: ParsedFunction
+): FunctionAnalysis | undefined {
+  const candidates = analysis.functions.filter(
+    (candidate) =>
+      candidate.kind === 'function' &&
+      candidate.name === func.name &&
+      candidate.parameterTypes.length === func.inputs.length
+  );
+  if (candidates.length <= 1) {
+    return candidates[0];
+  }
+
+  // internalType is e.g. "struct Auction.Bid" where the source says "Bid"
+  const abiTypes = func.inputs.map((input) =>
+    (input.internalType ?? input.type).replace(/^(struct|enum|contract) /, '').split('.').pop()
+  );
+  return candidates.find((candidate) =>
+    candidate.parameterTypes.every((type, index) => type.split('.').pop() === abiTypes[index])
+  );
+}
+
 /**
  * Build contracts overview page (README.md)
  */
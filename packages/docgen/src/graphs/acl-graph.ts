@@ -0,0 +1,131 @@
+/**
+ * ACL flow graph showing who can access each encrypted value of a contract
+ */
+
+import type { AclGrant, FunctionAnalysis, SolidityAnalysis } from '../types.js';
+import { convertDotToSvg } from './surya-wrapper.js';
+
+const EDGE_STYLES: Record<string, string> = {
+  allow: 'color="#2e7d32"',
+  allowThis: 'color="#1565c0"',
+  allowTransient: 'color="#ef6c00", style=dashed',
+  makePubliclyDecryptable: 'color="#6a1b9a"',
+};
+
+/**
+ * Build a DOT graph linking each encrypted state variable to the functions that write it
+ * and the accounts granted access to it. Grants on values not stored in state,
+ * like a returned ebool, are drawn from the function making them.
+ */
+export function buildAclFlowGraph(analysis: SolidityAnalysis): string {
+  const stateNames = new Set(analysis.stateVariables.map((variable) => variable.name));
+  const nodes = new Map<string, string>();
+  const edges = new Set<string>();
+
+  for (const variable of analysis.stateVariables) {
+    nodes.set(
+      `state:${variable.name}`,
+      `label="${escapeDot(`${variable.name}\n${variable.type}`)}", shape=box, style="rounded,filled", fillcolor="#fff8e1"`
+    );
+  }
+
+  for (const func of analysis.functions) {
+    const functionId = `function:${func.name}`;
+    const addFunction = () => {
+      nodes.set(functionId, `label="${escapeDot(`${func.name}()`)}", shape=ellipse`);
+    };
+
+    for (const write of func.stateWrites) {
+      addFunction();
+      edges.add(`"${functionId}" -> "state:${write.variable}" [label="writes", color="#757575"];`);
+    }
+
+    for (const grant of func.aclGrants) {
+      const variable = getGrantedVariable(grant, func, stateNames);
+      const from = variable ? `state:${variable}` : functionId;
+      if (!variable) {
+        addFunction();
+      }
+
+      const account = getAccountNode(grant);
+      nodes.set(account.id, account.attributes);
+
+      const label = variable ? `${grant.method}\n(${func.name})` : `${grant.method}(${grant.handle})`;
+      edges.add(`"${from}" -> "${account.id}" [label="${escapeDot(label)}", ${EDGE_STYLES[grant.method] ?? ''}];`);
+    }
+  }
+
+  const lines = [
+    'digraph AclFlow {',
+    '  rankdir=LR;',
+    '  node [fontname="Helvetica", fontsize=11];',
+    '  edge [fontname="Helvetica", fontsize=9];',
+    ...Array.from(nodes.entries()).map(([id, attributes]) => `  "${id}" [${attributes}];`),
+    ...Array.from(edges).map((edge) => `  ${edge}`),
+    '}',
+  ];
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Build the ACL flow graph and convert it to SVG
+ */
+export async function generateAclFlowGraphSvg(analysis: SolidityAnalysis): Promise<string> {
+  return convertDotToSvg(buildAclFlowGraph(analysis));
+}
+
+/**
+ * Check whether a contract has anything to draw in an ACL flow graph
+ */
+export function hasAclFlow(analysis: SolidityAnalysis): boolean {
+  return (
+    analysis.stateVariables.length > 0 ||
+    analysis.functions.some((func) => func.aclGrants.length > 0)
+  );
+}
+
+/**
+ * State variable a grant gives access to, either directly (_balances[to])
+ * or through the value the function stores in it
+ */
+function getGrantedVariable(
+  grant: AclGrant,
+  func: FunctionAnalysis,
+  stateNames: Set<string>
+): string | null {
+  const handle = grant.handle.replace(/\s+/g, '');
+  const root = /^[A-Za-z_$][\w$]*/.exec(handle)?.[0];
+  const shadowed = root !== undefined && func.parameterNames.includes(root);
+  if (root && stateNames.has(root) && !shadowed) {
+    return root;
+  }
+
+  const write = func.stateWrites.find((candidate) => candidate.value.replace(/\s+/g, '') === handle);
+  return write?.variable ?? null;
+}
+
+/**
+ * Node for the account a grant is made to
+ */
+function getAccountNode(grant: AclGrant): { id: string; attributes: string } {
+  if (grant.method === 'makePubliclyDecryptable') {
+    return { id: 'account:public', attributes: 'label="anyone\\n(public decryption)", shape=octagon' };
+  }
+
+  const account = (grant.account ?? '').replace(/\s+/g, '');
+  if (account === 'this' || account === 'address(this)') {
+    return { id: 'account:this', attributes: 'label="this contract", shape=box3d' };
+  }
+  if (account === 'msg.sender') {
+    return { id: 'account:msg.sender', attributes: 'label="msg.sender", shape=house' };
+  }
+  return { id: `account:${escapeDot(account)}`, attributes: `label="${escapeDot(account)}", shape=house` };
+}
+
+/**
+ * Escape text for a quoted DOT string
+ */
+function escapeDot(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
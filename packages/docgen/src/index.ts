@@ -4,12 +4,31 @@
  */
 
 export { generateDocs } from './generator.js';
+export {
+  analyzeSolidityFile,
+  analyzeSoliditySource,
+  analyzeSolidityContracts,
+  summarizeFheOperations,
+  FHE_OPERATIONS,
+} from './parsers/solidity-analyzer.js';
+export { lintSolidityFile, lintSoliditySource, LINT_RULES } from './lint/linter.js';
+export { toSarif } from './lint/sarif.js';
 export type {
   DocGenConfig,
   ContractInput,
   ContractDocumentation,
   SummarySection,
   FHEOperation,
+  SolidityAnalysis,
+  FunctionAnalysis,
+  EncryptedStateVariable,
+  AclGrant,
+  AclCheck,
+  EncryptedStateWrite,
+  BranchCondition,
+  LintRule,
+  LintFinding,
+  LintOptions,
   GeneratedPage,
   SummaryItem,
 } from './types.js';
@@ -0,0 +1,258 @@
+/**
+ * FHEVM security linter
+ * Checks analyzed Solidity source for common mistakes with encrypted values and their ACL
+ */
+
+import { readFile } from 'fs/promises';
+import { analyzeSolidityContracts } from '../parsers/solidity-analyzer.js';
+import type {
+  FunctionAnalysis,
+  LintFinding,
+  LintOptions,
+  LintRule,
+  SolidityAnalysis,
+} from '../types.js';
+
+/**
+ * Rules checked by the linter
+ */
+export const LINT_RULES: LintRule[] = [
+  {
+    id: 'missing-allow-this',
+    severity: 'error',
+    description:
+      'Encrypted value written to state without FHE.allowThis, so later transactions cannot use it',
+  },
+  {
+    id: 'missing-user-allow',
+    severity: 'warning',
+    description: 'Encrypted value written to state without FHE.allow for an account that should decrypt it',
+  },
+  {
+    id: 'unchecked-handle-input',
+    severity: 'error',
+    description:
+      'Encrypted handle parameter used without FHE.isSenderAllowed, letting callers use handles they cannot access',
+  },
+  {
+    id: 'decrypted-branch',
+    severity: 'error',
+    description: 'Branch on a decrypted value inside a transaction, leaking the plaintext through control flow',
+  },
+  {
+    id: 'unchecked-overflow',
+    severity: 'warning',
+    description:
+      'Encrypted arithmetic without a comparison or FHE.select guard, which wraps around silently on overflow',
+  },
+  {
+    id: 'parse-error',
+    severity: 'error',
+    description: 'Source that could not be read or parsed, so none of its contracts were checked',
+  },
+];
+
+// Matches encrypted handle types, but not externalEuint64 and the like
+const HANDLE_TYPE = /^e(uint\d+|int\d+|bool|address|bytes\d+)$/;
+
+// Operations that wrap around on overflow or underflow
+const WRAPPING_OPERATIONS = new Set(['FHE.add', 'FHE.sub', 'FHE.mul']);
+
+// Operations that show the function guards its arithmetic
+const GUARD_OPERATIONS = new Set([
+  'FHE.select',
+  'FHE.lt',
+  'FHE.le',
+  'FHE.gt',
+  'FHE.ge',
+  'FHE.min',
+  'FHE.max',
+]);
+
+const SUPPRESSION = /\/\/\s*zcraft-lint-disable(-next-line|-line)?\b(.*)$/;
+
+/**
+ * Lint a Solidity file
+ */
+export async function lintSolidityFile(solPath: string, options: LintOptions = {}): Promise<LintFinding[]> {
+  const source = await readFile(solPath, 'utf-8');
+  return lintSoliditySource(source, { file: solPath, ...options });
+}
+
+/**
+ * Lint Solidity source, dropping findings suppressed by comments:
+ * `// zcraft-lint-disable-next-line [rules]`, `// zcraft-lint-disable-line [rules]`
+ * and `// zcraft-lint-disable [rules]` for the whole file. Without rules, all are suppressed.
+ */
+export function lintSoliditySource(source: string, options: LintOptions = {}): LintFinding[] {
+  const contracts = analyzeSolidityContracts(source).filter(
+    (analysis) => !options.contractName || analysis.contractName === options.contractName
+  );
+  const isSuppressed = getSuppressions(source);
+
+  // Inherited functions are checked with each contract, report them once for the base
+  const seen = new Set<string>();
+  return contracts
+    .flatMap((analysis) => lintContract(analysis))
+    .filter((finding) => {
+      // Rules like unchecked-handle-input report each parameter at the same line
+      const key = `${finding.ruleId}:${finding.line}:${finding.message}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    })
+    .filter((finding) => !isSuppressed(finding.ruleId, finding.line))
+    .map((finding) => (options.file ? { ...finding, file: options.file } : finding))
+    .sort((a, b) => a.line - b.line || a.ruleId.localeCompare(b.ruleId));
+}
+
+/**
+ * Check every function of an analyzed contract
+ */
+function lintContract(analysis: SolidityAnalysis): LintFinding[] {
+  const findings: LintFinding[] = [];
+
+  for (const func of analysis.functions) {
+    const report = (ruleId: string, line: number, message: string) => {
+      const rule = LINT_RULES.find((candidate) => candidate.id === ruleId);
+      findings.push({
+        ruleId,
+        severity: rule?.severity ?? 'warning',
+        message,
+        line,
+        contract: analysis.contractName,
+        function: func.name,
+      });
+    };
+
+    const isTransaction =
+      func.kind !== 'modifier' && func.stateMutability !== 'view' && func.stateMutability !== 'pure';
+    const isEntryPoint =
+      func.kind !== 'modifier' && (func.visibility === 'external' || func.visibility === 'public');
+
+    if (isTransaction) {
+      for (const write of func.stateWrites) {
+        const handles = [normalize(write.target), normalize(write.value)];
+        const grants = func.aclGrants.filter((grant) => handles.includes(normalize(grant.handle)));
+
+        // A grant on the target before the write applies to the previous handle
+        const allowsContract = grants.some(
+          (grant) =>
+            (grant.method === 'allowThis' || (grant.method === 'allow' && isThis(grant.account))) &&
+            (normalize(grant.handle) === handles[1] || grant.line >= write.line)
+        );
+        if (!allowsContract) {
+          report(
+            'missing-allow-this',
+            write.line,
+            `${write.target} is written without FHE.allowThis, so the contract cannot use it in later transactions`
+          );
+        }
+
+        const allowsUser = grants.some(
+          (grant) =>
+            grant.method === 'makePubliclyDecryptable' || (grant.method === 'allow' && !isThis(grant.account))
+        );
+        if (isEntryPoint && func.kind === 'function' && !allowsUser) {
+          report(
+            'missing-user-allow',
+            write.line,
+            `${write.target} is written without FHE.allow for the account that should decrypt it`
+          );
+        }
+      }
+
+      for (const branch of func.branches.filter((candidate) => candidate.usesDecryptedValue)) {
+        report(
+          'decrypted-branch',
+          branch.line,
+          `Branching on decrypted value (${branch.condition}) reveals it, use FHE.select on encrypted values instead`
+        );
+      }
+    }
+
+    if (isEntryPoint) {
+      for (const name of getUncheckedHandles(func)) {
+        report(
+          'unchecked-handle-input',
+          func.line,
+          `Handle parameter ${name} is not checked with FHE.isSenderAllowed(${name})`
+        );
+      }
+    }
+
+    const guarded = func.operations.some((operation) => GUARD_OPERATIONS.has(operation.name));
+    if (!guarded) {
+      for (const operation of func.operations.filter((candidate) => WRAPPING_OPERATIONS.has(candidate.name))) {
+        for (const line of operation.lines ?? []) {
+          report(
+            'unchecked-overflow',
+            line,
+            `${operation.name} can overflow silently, compare the operands and use FHE.select to handle it`
+          );
+        }
+      }
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Encrypted handle parameters that the function never checks the caller may use
+ */
+function getUncheckedHandles(func: FunctionAnalysis): string[] {
+  const checked = new Set(
+    func.aclChecks
+      .filter((check) => check.method === 'isSenderAllowed' || check.account === 'msg.sender')
+      .map((check) => normalize(check.handle))
+  );
+
+  return func.parameterNames.filter(
+    (name, index) => name && HANDLE_TYPE.test(func.parameterTypes[index] ?? '') && !checked.has(name)
+  );
+}
+
+/**
+ * Build a check for whether a rule is suppressed on a line by a comment
+ */
+function getSuppressions(source: string): (ruleId: string, line: number) => boolean {
+  const fileRules: string[][] = [];
+  const lineRules = new Map<number, string[][]>();
+
+  source.split('\n').forEach((text, index) => {
+    const match = SUPPRESSION.exec(text);
+    if (!match) {
+      return;
+    }
+    const rules = match[2].split(/[\s,]+/).filter(Boolean);
+    if (!match[1]) {
+      fileRules.push(rules);
+      return;
+    }
+    const line = match[1] === '-next-line' ? index + 2 : index + 1;
+    lineRules.set(line, [...(lineRules.get(line) ?? []), rules]);
+  });
+
+  const covers = (rules: string[], ruleId: string) => rules.length === 0 || rules.includes(ruleId);
+
+  return (ruleId, line) =>
+    fileRules.some((rules) => covers(rules, ruleId)) ||
+    (lineRules.get(line) ?? []).some((rules) => covers(rules, ruleId));
+}
+
+/**
+ * Check whether an ACL account is the contract itself
+ */
+function isThis(account: string | undefined): boolean {
+  return account === 'this' || normalize(account ?? '') === 'address(this)';
+}
+
+/**
+ * Source text without whitespace, to compare handles written differently
+ */
+function normalize(text: string): string {
+  return text.replace(/\s+/g, '');
+}
@@ -0,0 +1,57 @@
+/**
+ * SARIF output for lint findings, for code scanning in CI
+ */
+
+import { LINT_RULES } from './linter.js';
+import type { LintFinding } from '../types.js';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+/**
+ * Convert lint findings to a SARIF 2.1.0 log
+ * File paths are used as given, so pass them relative to the repository root
+ */
+export function toSarif(findings: LintFinding[]): Record<string, unknown> {
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'zcraft',
+            rules: LINT_RULES.map((rule) => ({
+              id: rule.id,
+              shortDescription: { text: rule.description },
+              defaultConfiguration: { level: rule.severity },
+            })),
+          },
+        },
+        results: findings.map((finding) => ({
+          ruleId: finding.ruleId,
+          ruleIndex: LINT_RULES.findIndex((rule) => rule.id === finding.ruleId),
+          level: finding.severity,
+          message: { text: finding.message },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: (finding.file ?? '').split('\\').join('/') },
+                region: { startLine: finding.line },
+              },
+              // File-level findings like parse errors have no function
+              logicalLocations: finding.contract
+                ? [
+                    {
+                      name: finding.function,
+                      fullyQualifiedName: `${finding.contract}.${finding.function}`,
+                      kind: 'function',
+                    },
+                  ]
+                : [],
+            },
+          ],
+        })),
+      },
+    ],
+  };
+}
@@ -0,0 +1,701 @@
+/**
+ * Solidity source analyzer for FHE operations, encrypted state and ACL grants
+ */
+
+import { readFile } from 'fs/promises';
+import { parse, visit } from '@solidity-parser/parser';
+import type {
+  ASTNode,
+  BaseASTNode,
+  ContractDefinition,
+  Expression,
+  FunctionCall,
+  FunctionDefinition,
+  ModifierDefinition,
+  StateVariableDeclaration,
+  StructDefinition,
+  TypeName,
+  UsingForDeclaration,
+  VariableDeclaration,
+} from '@solidity-parser/parser/dist/src/ast-types.js';
+import type {
+  AclCheck,
+  AclGrant,
+  BranchCondition,
+  EncryptedStateVariable,
+  EncryptedStateWrite,
+  FHEOperation,
+  FunctionAnalysis,
+  SolidityAnalysis,
+} from '../types.js';
+
+/**
+ * FHE library operations and their descriptions
+ */
+export const FHE_OPERATIONS: Record<string, string> = {
+  'FHE.add': 'Addition of encrypted values',
+  'FHE.sub': 'Subtraction of encrypted values',
+  'FHE.mul': 'Multiplication of encrypted values',
+  'FHE.div': 'Division of encrypted values',
+  'FHE.rem': 'Remainder of encrypted values',
+  'FHE.neg': 'Negation of an encrypted value',
+  'FHE.eq': 'Equality comparison of encrypted values',
+  'FHE.ne': 'Not-equal comparison of encrypted values',
+  'FHE.lt': 'Less-than comparison of encrypted values',
+  'FHE.le': 'Less-than-or-equal comparison of encrypted values',
+  'FHE.lte': 'Less-than-or-equal comparison of encrypted values',
+  'FHE.gt': 'Greater-than comparison of encrypted values',
+  'FHE.ge': 'Greater-than-or-equal comparison of encrypted values',
+  'FHE.gte': 'Greater-than-or-equal comparison of encrypted values',
+  'FHE.min': 'Minimum of encrypted values',
+  'FHE.max': 'Maximum of encrypted values',
+  'FHE.and': 'Logical AND of encrypted booleans',
+  'FHE.or': 'Logical OR of encrypted booleans',
+  'FHE.xor': 'Logical XOR of encrypted booleans',
+  'FHE.not': 'Logical NOT of encrypted boolean',
+  'FHE.shl': 'Left shift of an encrypted value',
+  'FHE.shr': 'Right shift of an encrypted value',
+  'FHE.rotl': 'Left rotation of an encrypted value',
+  'FHE.rotr': 'Right rotation of an encrypted value',
+  'FHE.select': 'Conditional selection (ternary operator)',
+  'FHE.asEuint8': 'Convert to euint8',
+  'FHE.asEuint16': 'Convert to euint16',
+  'FHE.asEuint32': 'Convert to euint32',
+  'FHE.asEuint64': 'Convert to euint64',
+  'FHE.asEuint128': 'Convert to euint128',
+  'FHE.asEuint256': 'Convert to euint256',
+  'FHE.asEbool': 'Convert to ebool',
+  'FHE.asEaddress': 'Convert to eaddress',
+  'FHE.fromExternal': 'Verify and convert an external encrypted input',
+  'FHE.allow': 'Grant user permission to decrypt',
+  'FHE.allowThis': 'Grant contract permission to use encrypted value',
+  'FHE.allowTransient': 'Grant transient permission',
+  'FHE.makePubliclyDecryptable': 'Allow anyone to decrypt the value',
+  'FHE.isSenderAllowed': 'Check if sender has permission',
+  'FHE.isAllowed': 'Check if an account has permission',
+  'FHE.requestDecryption': 'Request public decryption from the oracle',
+  'FHE.checkSignatures': 'Verify decryption oracle signatures',
+};
+
+// FHE methods that grant access to a handle
+const ACL_GRANT_METHODS = new Set(['allow', 'allowThis', 'allowTransient', 'makePubliclyDecryptable']);
+
+// FHE methods that check access to a handle
+const ACL_CHECK_METHODS = new Set(['isSenderAllowed', 'isAllowed']);
+
+// Encrypted and external encrypted types, e.g. euint64 or externalEbool
+const ENCRYPTED_TYPE = /^(euint\d+|ebool|eaddress|externalEuint\d+|externalEbool|externalEaddress)$/;
+
+/**
+ * Read and analyze a Solidity file, or null when it can't be read or parsed
+ */
+export async function analyzeSolidityFile(
+  solPath: string,
+  contractName?: string
+): Promise<SolidityAnalysis | null> {
+  try {
+    const source = await readFile(solPath, 'utf-8');
+    return analyzeSoliditySource(source, contractName);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Analyze Solidity source for the FHE usage of a contract
+ * Defaults to the last contract in the file when no name is given
+ */
+export function analyzeSoliditySource(source: string, contractName?: string): SolidityAnalysis {
+  const ast = parse(source, { loc: true, range: true });
+
+  const contracts = ast.children.filter(
+    (node): node is ContractDefinition => node.type === 'ContractDefinition'
+  );
+  const contract = contractName
+    ? contracts.find((candidate) => candidate.name === contractName)
+    : contracts.filter(isConcreteOrAbstract).pop();
+  if (!contract) {
+    throw new Error(contractName ? `Contract ${contractName} not found` : 'No contract found');
+  }
+
+  return analyzeContract(contract, ast.children as BaseASTNode[], source);
+}
+
+/**
+ * Analyze every contract in Solidity source, skipping interfaces and libraries
+ */
+export function analyzeSolidityContracts(source: string): SolidityAnalysis[] {
+  const ast = parse(source, { loc: true, range: true });
+
+  return ast.children
+    .filter((node): node is ContractDefinition => node.type === 'ContractDefinition')
+    .filter(isConcreteOrAbstract)
+    .map((contract) => analyzeContract(contract, ast.children as BaseASTNode[], source));
+}
+
+/**
+ * Check whether a definition is a contract rather than an interface or library
+ */
+function isConcreteOrAbstract(contract: ContractDefinition): boolean {
+  return contract.kind === 'contract' || contract.kind === 'abstract';
+}
+
+/**
+ * Analyze one contract, with the file-level structs and using directives it sees
+ * and the state and functions it inherits from contracts in the same file
+ */
+function analyzeContract(
+  contract: ContractDefinition,
+  fileNodes: BaseASTNode[],
+  source: string
+): SolidityAnalysis {
+  const lineage = getLinearizedBases(contract, fileNodes);
+  const contractNodes = lineage.flatMap((definition) => definition.subNodes as BaseASTNode[]);
+
+  const structs = new Map<string, StructDefinition>();
+  for (const node of [...fileNodes, ...contractNodes]) {
+    if (node.type === 'StructDefinition') {
+      structs.set((node as StructDefinition).name, node as StructDefinition);
+    }
+  }
+
+  const context: AnalysisContext = {
+    source,
+    structs,
+    fheUsing: getFheUsingTargets([...fileNodes, ...contractNodes]),
+    stateTypes: new Map(),
+  };
+
+  const stateVariables: EncryptedStateVariable[] = [];
+  for (const node of contractNodes) {
+    if (node.type !== 'StateVariableDeclaration') {
+      continue;
+    }
+    for (const variable of (node as StateVariableDeclaration).variables) {
+      if (!variable.name || !variable.typeName) {
+        continue;
+      }
+      context.stateTypes.set(variable.name, variable.typeName);
+
+      const fheTypes = getEncryptedTypes(variable.typeName, structs);
+      if (fheTypes.length > 0) {
+        stateVariables.push({
+          name: variable.name,
+          type: formatTypeName(variable.typeName),
+          fheTypes,
+          visibility: variable.visibility ?? 'internal',
+          line: variable.loc?.start.line ?? 0,
+        });
+      }
+    }
+  }
+
+  // Overrides replace the inherited definition, so each signature appears once
+  const functions = new Map<string, FunctionAnalysis>();
+  for (const node of contractNodes) {
+    if (node.type !== 'FunctionDefinition' && node.type !== 'ModifierDefinition') {
+      continue;
+    }
+    const func = analyzeFunction(node as FunctionDefinition | ModifierDefinition, context);
+    const key =
+      func.kind === 'constructor' ? func.kind : `${func.name}(${func.parameterTypes.join(',')})`;
+    functions.delete(key);
+    functions.set(key, func);
+  }
+
+  return {
+    contractName: contract.name,
+    stateVariables,
+    functions: Array.from(functions.values()),
+  };
+}
+
+/**
+ * A contract and the bases defined in the same file, most base first
+ * Bases imported from other files are skipped
+ */
+function getLinearizedBases(
+  contract: ContractDefinition,
+  fileNodes: BaseASTNode[]
+): ContractDefinition[] {
+  const definitions = new Map<string, ContractDefinition>();
+  for (const node of fileNodes) {
+    if (node.type === 'ContractDefinition') {
+      definitions.set((node as ContractDefinition).name, node as ContractDefinition);
+    }
+  }
+
+  const lineage: ContractDefinition[] = [];
+  const visited = new Set<ContractDefinition>();
+  const visit = (definition: ContractDefinition) => {
+    if (visited.has(definition)) {
+      return;
+    }
+    visited.add(definition);
+    for (const base of definition.baseContracts) {
+      const baseDefinition = definitions.get(base.baseName.namePath);
+      if (baseDefinition) {
+        visit(baseDefinition);
+      }
+    }
+    lineage.push(definition);
+  };
+  visit(contract);
+
+  return lineage;
+}
+
+/**
+ * Combine the operations of every function into contract-wide counts
+ */
+export function summarizeFheOperations(analysis: SolidityAnalysis): FHEOperation[] {
+  const totals = new Map<string, FHEOperation>();
+
+  for (const func of analysis.functions) {
+    for (const operation of func.operations) {
+      const total = totals.get(operation.name);
+      if (total) {
+        total.count = (total.count || 0) + (operation.count || 0);
+        total.lines = [...(total.lines ?? []), ...(operation.lines ?? [])];
+      } else {
+        totals.set(operation.name, { ...operation });
+      }
+    }
+  }
+
+  return sortOperations(Array.from(totals.values()));
+}
+
+/**
+ * Source details shared while analyzing a contract's functions
+ */
+interface AnalysisContext {
+  source: string;
+  structs: Map<string, StructDefinition>;
+  // Types `using FHE for` applies to, '*' for all
+  fheUsing: Set<string>;
+  stateTypes: Map<string, TypeName>;
+}
+
+/**
+ * Analyze the FHE operations, ACL use, encrypted state writes and branches
+ * of one function or modifier
+ */
+function analyzeFunction(
+  node: FunctionDefinition | ModifierDefinition,
+  context: AnalysisContext
+): FunctionAnalysis {
+  const parameters = node.parameters ?? [];
+
+  // Variables in scope, to resolve the receiver of method-style calls like a.add(b)
+  const scope = new Map(context.stateTypes);
+  for (const parameter of parameters) {
+    if (parameter.name && parameter.typeName) {
+      scope.set(parameter.name, parameter.typeName);
+    }
+  }
+  if (node.type === 'FunctionDefinition') {
+    for (const parameter of node.returnParameters ?? []) {
+      if (parameter.name && parameter.typeName) {
+        scope.set(parameter.name, parameter.typeName);
+      }
+    }
+  }
+  if (node.body) {
+    visit(node.body, {
+      VariableDeclarationStatement: (statement) => {
+        for (const variable of statement.variables as Array<VariableDeclaration | null>) {
+          if (variable?.name && variable.typeName) {
+            scope.set(variable.name, variable.typeName);
+          }
+        }
+      },
+    });
+  }
+
+  const lines = new Map<string, number[]>();
+  const aclGrants: AclGrant[] = [];
+  const aclChecks: AclCheck[] = [];
+  const stateWrites: EncryptedStateWrite[] = [];
+  const branches: BranchCondition[] = [];
+
+  // Locals holding decrypted values, e.g. uint64 plain = TFHE.decrypt(balance)
+  const decrypted = new Set<string>();
+
+  const addBranch = (condition: Expression | null) => {
+    if (condition) {
+      branches.push({
+        condition: getSourceText(condition, context.source),
+        usesDecryptedValue: usesDecryptedValue(condition, decrypted),
+        line: condition.loc?.start.line ?? 0,
+      });
+    }
+  };
+
+  if (node.body) {
+    visit(node.body, {
+      VariableDeclarationStatement: (statement) => {
+        if (statement.initialValue && usesDecryptedValue(statement.initialValue, decrypted)) {
+          for (const variable of statement.variables as Array<VariableDeclaration | null>) {
+            if (variable?.name) {
+              decrypted.add(variable.name);
+            }
+          }
+        }
+      },
+      BinaryOperation: (operation) => {
+        if (!operation.operator.endsWith('=') || ['==', '!=', '<=', '>='].includes(operation.operator)) {
+          return;
+        }
+        if (operation.left.type === 'Identifier' && usesDecryptedValue(operation.right, decrypted)) {
+          decrypted.add(operation.left.name);
+        }
+
+        const variable = getStateVariable(operation.left, scope, context);
+        const typeName = resolveTypeName(operation.left, scope, context);
+        if (variable && typeName && getEncryptedTypes(typeName, context.structs).length > 0) {
+          stateWrites.push({
+            variable,
+            target: getSourceText(operation.left, context.source),
+            value: getSourceText(operation.right, context.source),
+            line: operation.loc?.start.line ?? 0,
+          });
+        }
+      },
+      IfStatement: (statement) => addBranch(statement.condition),
+      WhileStatement: (statement) => addBranch(statement.condition),
+      DoWhileStatement: (statement) => addBranch(statement.condition),
+      ForStatement: (statement) => addBranch(statement.conditionExpression ?? null),
+      Conditional: (conditional) => addBranch(conditional.condition),
+      FunctionCall: (call) => {
+        if (
+          call.expression.type === 'Identifier' &&
+          (call.expression.name === 'require' || call.expression.name === 'assert')
+        ) {
+          addBranch(call.arguments[0] ?? null);
+          return;
+        }
+
+        const target = getFheCallTarget(call, scope, context);
+        if (!target) {
+          return;
+        }
+
+        const name = `FHE.${target.method}`;
+        const line = call.loc?.start.line ?? 0;
+        lines.set(name, [...(lines.get(name) ?? []), line]);
+
+        const [handle, account] = target.args;
+        if (!handle) {
+          return;
+        }
+        if (ACL_GRANT_METHODS.has(target.method)) {
+          aclGrants.push({
+            method: target.method,
+            handle: getSourceText(handle, context.source),
+            account:
+              target.method === 'allowThis'
+                ? 'this'
+                : account
+                  ? getSourceText(account, context.source)
+                  : undefined,
+            line,
+          });
+        }
+        if (ACL_CHECK_METHODS.has(target.method)) {
+          aclChecks.push({
+            method: target.method,
+            handle: getSourceText(handle, context.source),
+            account: account ? getSourceText(account, context.source) : undefined,
+            line,
+          });
+        }
+      },
+    });
+  }
+
+  const operations = Array.from(lines.entries()).map(([name, uses]) => ({
+    name,
+    description: FHE_OPERATIONS[name] ?? 'FHE library call',
+    count: uses.length,
+    lines: uses,
+  }));
+
+  return {
+    name: getFunctionName(node),
+    kind: getFunctionKind(node),
+    parameterTypes: parameters.map((parameter) =>
+      parameter.typeName ? formatTypeName(parameter.typeName) : ''
+    ),
+    parameterNames: parameters.map((parameter) => parameter.name ?? ''),
+    visibility: node.type === 'FunctionDefinition' ? node.visibility : 'internal',
+    stateMutability:
+      node.type === 'FunctionDefinition' && node.stateMutability
+        ? node.stateMutability
+        : 'nonpayable',
+    operations: sortOperations(operations),
+    aclGrants,
+    aclChecks,
+    stateWrites,
+    branches,
+    line: node.loc?.start.line ?? 0,
+  };
+}
+
+/**
+ * Method and handle-first arguments of an FHE call, or null for other calls
+ * Handles FHE.add(a, b) and, with `using FHE for`, a.add(b)
+ */
+function getFheCallTarget(
+  call: FunctionCall,
+  scope: Map<string, TypeName>,
+  context: AnalysisContext
+): { method: string; args: Expression[] } | null {
+  if (call.expression.type !== 'MemberAccess') {
+    return null;
+  }
+
+  const { expression: receiver, memberName } = call.expression;
+  if (receiver.type === 'Identifier' && receiver.name === 'FHE') {
+    return { method: memberName, args: call.arguments };
+  }
+
+  if (context.fheUsing.size === 0 || !(`FHE.${memberName}` in FHE_OPERATIONS)) {
+    return null;
+  }
+
+  const receiverType = resolveExpressionType(receiver, scope, context);
+  const applies =
+    receiverType === null
+      ? isFheCall(receiver, scope, context)
+      : ENCRYPTED_TYPE.test(receiverType) &&
+        (context.fheUsing.has('*') || context.fheUsing.has(receiverType));
+
+  return applies ? { method: memberName, args: [receiver, ...call.arguments] } : null;
+}
+
+/**
+ * Check whether an expression is itself an FHE call, e.g. the a.add(b) in a.add(b).mul(c)
+ */
+function isFheCall(expression: Expression, scope: Map<string, TypeName>, context: AnalysisContext): boolean {
+  return expression.type === 'FunctionCall' && getFheCallTarget(expression, scope, context) !== null;
+}
+
+/**
+ * Solidity type of a variable, mapping entry, array element or struct member,
+ * or null when it can't be resolved
+ */
+function resolveExpressionType(
+  expression: Expression,
+  scope: Map<string, TypeName>,
+  context: AnalysisContext
+): string | null {
+  const typeName = resolveTypeName(expression, scope, context);
+  return typeName ? formatTypeName(typeName) : null;
+}
+
+/**
+ * Type node behind an expression, following mappings, arrays and struct members
+ */
+function resolveTypeName(
+  expression: Expression,
+  scope: Map<string, TypeName>,
+  context: AnalysisContext
+): TypeName | null {
+  switch (expression.type) {
+    case 'Identifier':
+      return scope.get(expression.name) ?? null;
+    case 'IndexAccess': {
+      const base = resolveTypeName(expression.base, scope, context);
+      if (base?.type === 'Mapping') {
+        return base.valueType;
+      }
+      if (base?.type === 'ArrayTypeName') {
+        return base.baseTypeName;
+      }
+      return null;
+    }
+    case 'MemberAccess': {
+      const base = resolveTypeName(expression.expression, scope, context);
+      if (base?.type !== 'UserDefinedTypeName') {
+        return null;
+      }
+      const struct = context.structs.get(base.namePath.split('.').pop() ?? '');
+      const member = struct?.members.find((candidate) => candidate.name === expression.memberName);
+      return member?.typeName ?? null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * State variable an assignment writes to, e.g. _balances for _balances[to].amount,
+ * or null for locals and parameters
+ */
+function getStateVariable(
+  expression: Expression,
+  scope: Map<string, TypeName>,
+  context: AnalysisContext
+): string | null {
+  switch (expression.type) {
+    case 'Identifier': {
+      const stateType = context.stateTypes.get(expression.name);
+      // Locals and parameters may shadow state variables
+      return stateType && scope.get(expression.name) === stateType ? expression.name : null;
+    }
+    case 'IndexAccess':
+      return getStateVariable(expression.base, scope, context);
+    case 'MemberAccess':
+      return getStateVariable(expression.expression, scope, context);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check whether an expression decrypts a value, e.g. TFHE.decrypt(x),
+ * or reads a local holding a decrypted value
+ */
+function usesDecryptedValue(expression: Expression, decrypted: Set<string>): boolean {
+  let found = false;
+
+  visit(expression, {
+    FunctionCall: (call) => {
+      const callee = call.expression;
+      if (
+        (callee.type === 'MemberAccess' && callee.memberName === 'decrypt') ||
+        (callee.type === 'Identifier' && callee.name === 'decrypt')
+      ) {
+        found = true;
+      }
+    },
+    Identifier: (identifier) => {
+      if (decrypted.has(identifier.name)) {
+        found = true;
+      }
+    },
+  });
+
+  return found;
+}
+
+/**
+ * Types `using FHE for` applies to in a contract or its file
+ */
+function getFheUsingTargets(nodes: BaseASTNode[]): Set<string> {
+  const targets = new Set<string>();
+
+  for (const node of nodes) {
+    if (node.type !== 'UsingForDeclaration') {
+      continue;
+    }
+    const using = node as UsingForDeclaration;
+    if (using.libraryName !== 'FHE') {
+      continue;
+    }
+    targets.add(using.typeName ? formatTypeName(using.typeName) : '*');
+  }
+
+  return targets;
+}
+
+/**
+ * Encrypted types held by a type, looking inside mappings, arrays and structs
+ */
+function getEncryptedTypes(
+  typeName: TypeName,
+  structs: Map<string, StructDefinition>,
+  seen: Set<string> = new Set()
+): string[] {
+  switch (typeName.type) {
+    case 'UserDefinedTypeName': {
+      const name = typeName.namePath.split('.').pop() ?? typeName.namePath;
+      if (ENCRYPTED_TYPE.test(name)) {
+        return [name];
+      }
+      const struct = structs.get(name);
+      if (!struct || seen.has(name)) {
+        return [];
+      }
+      seen.add(name);
+      const types = struct.members.flatMap((member) =>
+        member.typeName ? getEncryptedTypes(member.typeName, structs, seen) : []
+      );
+      return Array.from(new Set(types));
+    }
+    case 'Mapping':
+      return getEncryptedTypes(typeName.valueType, structs, seen);
+    case 'ArrayTypeName':
+      return getEncryptedTypes(typeName.baseTypeName, structs, seen);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Solidity type as written, e.g. mapping(address => euint64)
+ */
+function formatTypeName(typeName: TypeName): string {
+  switch (typeName.type) {
+    case 'ElementaryTypeName':
+      return typeName.name;
+    case 'UserDefinedTypeName':
+      return typeName.namePath;
+    case 'Mapping':
+      return `mapping(${formatTypeName(typeName.keyType)} => ${formatTypeName(typeName.valueType)})`;
+    case 'ArrayTypeName': {
+      const length =
+        typeName.length && 'number' in typeName.length ? String(typeName.length.number) : '';
+      return `${formatTypeName(typeName.baseTypeName)}[${length}]`;
+    }
+    default:
+      return 'function';
+  }
+}
+
+/**
+ * Source text of an expression, e.g. msg.sender
+ */
+function getSourceText(node: ASTNode, source: string): string {
+  return node.range ? source.slice(node.range[0], node.range[1] + 1) : '';
+}
+
+/**
+ * Display name of a function, naming special functions after their kind
+ */
+function getFunctionName(node: FunctionDefinition | ModifierDefinition): string {
+  const kind = getFunctionKind(node);
+  return kind === 'function' || kind === 'modifier' ? (node.name ?? '') : kind;
+}
+
+/**
+ * Kind of a function or modifier definition
+ */
+function getFunctionKind(node: FunctionDefinition | ModifierDefinition): FunctionAnalysis['kind'] {
+  if (node.type === 'ModifierDefinition') {
+    return 'modifier';
+  }
+  if (node.isConstructor) {
+    return 'constructor';
+  }
+  if (node.isReceiveEther) {
+    return 'receive';
+  }
+  if (node.isFallback) {
+    return 'fallback';
+  }
+  return 'function';
+}
+
+/**
+ * Sort operations by count (descending), then by name
+ */
+function sortOperations(operations: FHEOperation[]): FHEOperation[] {
+  return operations.sort((a, b) => {
+    if (b.count !== a.count) {
+      return (b.count || 0) - (a.count || 0);
+    }
+    return a.name.localeCompare(b.name);
+  });
+}
@@ -2,7 +2,7 @@
  * Handlebars template helpers
  */
 
-import type { ParsedFunction } from '@zcraft/codegen';
+import { getValueParamName, type ParsedFunction } from '@zcraft/codegen';
 
 /**
  * Check if function is a view function
@@ -18,6 +18,20 @@ export function isPure(func: ParsedFunction): boolean {
   return func.stateMutability === 'pure';
 }
 
+/**
+ * Check if function accepts ether
+ */
+export function isPayable(func: ParsedFunction): boolean {
+  return func.stateMutability === 'payable';
+}
+
+/**
+ * Name of the generated task param for the ether sent to a payable function
+ */
+export function valueParamName(func: ParsedFunction): string {
+  return getValueParamName(func);
+}
+
 /**
  * Check if function has encrypted inputs
  */
@@ -81,6 +95,8 @@ export function or(...args: any[]): boolean {
 export function registerHelpers(handlebars: any): void {
   handlebars.registerHelper('isView', isView);
   handlebars.registerHelper('isPure', isPure);
+  handlebars.registerHelper('isPayable', isPayable);
+  handlebars.registerHelper('valueParamName', valueParamName);
   handlebars.registerHelper('hasEncryptedInput', hasEncryptedInput);
   handlebars.registerHelper('hasEncryptedOutput', hasEncryptedOutput);
   handlebars.registerHelper('fhevmIcon', fhevmIcon);
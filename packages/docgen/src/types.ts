@@ -72,6 +72,8 @@ export interface ContractDocumentation {
   fhevmTypes: string[];
   /** FHE operations used */
   fheOperations: FHEOperation[];
+  /** Source analysis (per-function FHE operations, encrypted state, ACL grants) */
+  analysis?: SolidityAnalysis;
   /** Solidity source code */
   solidityCode?: string;
   /** TypeScript test code */
@@ -80,6 +82,7 @@ export interface ContractDocumentation {
   graphs?: {
     callGraph?: string;
     inheritance?: string;
+    aclFlow?: string;
   };
 }
 
@@ -93,6 +96,162 @@ export interface FHEOperation {
   description: string;
   /** Number of times used in contract */
   count?: number;
+  /** Source lines of each use */
+  lines?: number[];
+}
+
+/**
+ * Encrypted state variable declared in Solidity source
+ */
+export interface EncryptedStateVariable {
+  /** Variable name */
+  name: string;
+  /** Declared type (e.g., "euint64", "mapping(address => euint64)") */
+  type: string;
+  /** Encrypted types it holds (e.g., ["euint64"]) */
+  fheTypes: string[];
+  /** Declared visibility */
+  visibility: string;
+  /** Line of the declaration */
+  line: number;
+}
+
+/**
+ * ACL grant on an encrypted handle (e.g., "FHE.allowThis(_count)")
+ */
+export interface AclGrant {
+  /** Grant method ("allow", "allowThis", "allowTransient" or "makePubliclyDecryptable") */
+  method: string;
+  /** Source of the handle access is granted to (e.g., "_count") */
+  handle: string;
+  /** Account granted access ("this" for allowThis, none for public decryption) */
+  account?: string;
+  /** Line of the call */
+  line: number;
+}
+
+/**
+ * ACL check on an encrypted handle (e.g., "FHE.isSenderAllowed(amount)")
+ */
+export interface AclCheck {
+  /** Check method ("isSenderAllowed" or "isAllowed") */
+  method: string;
+  /** Source of the handle checked */
+  handle: string;
+  /** Account checked, for isAllowed */
+  account?: string;
+  /** Line of the call */
+  line: number;
+}
+
+/**
+ * Assignment of an encrypted value to contract state (e.g., "_balances[to] = newBalance")
+ */
+export interface EncryptedStateWrite {
+  /** State variable written */
+  variable: string;
+  /** Source of the assigned location (e.g., "_balances[to]") */
+  target: string;
+  /** Source of the assigned value (e.g., "newBalance") */
+  value: string;
+  /** Line of the assignment */
+  line: number;
+}
+
+/**
+ * Condition of an if, loop, ternary, require or assert
+ */
+export interface BranchCondition {
+  /** Source of the condition */
+  condition: string;
+  /** Whether the condition depends on a value decrypted in the function */
+  usesDecryptedValue: boolean;
+  /** Line of the condition */
+  line: number;
+}
+
+/**
+ * FHE usage of a single function, constructor or modifier
+ */
+export interface FunctionAnalysis {
+  /** Function name ("constructor", "fallback" and "receive" for special functions) */
+  name: string;
+  /** Kind of definition */
+  kind: 'function' | 'constructor' | 'modifier' | 'fallback' | 'receive';
+  /** Solidity parameter types (e.g., ["externalEuint32", "bytes"]) */
+  parameterTypes: string[];
+  /** Parameter names, empty for unnamed parameters */
+  parameterNames: string[];
+  /** Declared visibility */
+  visibility: string;
+  /** State mutability ("nonpayable" when not declared) */
+  stateMutability: string;
+  /** FHE operations called, both FHE.add(a, b) and a.add(b) with `using FHE for` */
+  operations: FHEOperation[];
+  /** ACL grants made */
+  aclGrants: AclGrant[];
+  /** ACL checks made */
+  aclChecks: AclCheck[];
+  /** Encrypted values written to state */
+  stateWrites: EncryptedStateWrite[];
+  /** Branch conditions */
+  branches: BranchCondition[];
+  /** Line where the definition starts */
+  line: number;
+}
+
+/**
+ * Result of analyzing a contract's Solidity source
+ */
+export interface SolidityAnalysis {
+  /** Analyzed contract */
+  contractName: string;
+  /** Encrypted state variables */
+  stateVariables: EncryptedStateVariable[];
+  /** Functions, constructors and modifiers in source order, inherited ones first */
+  functions: FunctionAnalysis[];
+}
+
+/**
+ * Security rule checked by the linter
+ */
+export interface LintRule {
+  /** Rule id used in reports and suppression comments (e.g., "missing-allow-this") */
+  id: string;
+  /** Severity of findings */
+  severity: 'error' | 'warning';
+  /** What the rule checks */
+  description: string;
+}
+
+/**
+ * Problem found by the linter
+ */
+export interface LintFinding {
+  /** Rule that reported it */
+  ruleId: string;
+  /** Severity of the rule */
+  severity: 'error' | 'warning';
+  /** Explanation, naming the handle or variable involved */
+  message: string;
+  /** Source file, when linting a file */
+  file?: string;
+  /** Line of the problem */
+  line: number;
+  /** Contract containing it */
+  contract: string;
+  /** Function containing it */
+  function: string;
+}
+
+/**
+ * Options for linting Solidity source
+ */
+export interface LintOptions {
+  /** File name to attach to findings */
+  file?: string;
+  /** Only lint this contract, instead of every contract in the source */
+  contractName?: string;
 }
 
 /**
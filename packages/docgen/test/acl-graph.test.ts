@@ -0,0 +1,73 @@
+/**
+ * Tests for the ACL flow graph
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { buildAclFlowGraph, hasAclFlow } from '../src/graphs/acl-graph.js';
+import { analyzeSoliditySource } from '../src/parsers/solidity-analyzer.js';
+
+const source = `
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
+
+contract ConfidentialToken {
+  mapping(address => euint64) private _balances;
+  euint64 private _supply;
+  uint256 public holders;
+
+  function transfer(address to, euint64 amount) external {
+    euint64 received = FHE.add(_balances[to], amount);
+    FHE.allowThis(received);
+    FHE.allow(received, to);
+    _balances[to] = received;
+  }
+
+  function mint(euint64 amount) external {
+    _supply = FHE.add(_supply, amount);
+    FHE.allowThis(_supply);
+    FHE.makePubliclyDecryptable(_supply);
+  }
+
+  function isHolder(address account) external returns (ebool) {
+    ebool holder = FHE.gt(_balances[account], FHE.asEuint64(0));
+    FHE.allowTransient(holder, msg.sender);
+    return holder;
+  }
+}
+`;
+
+test('buildAclFlowGraph links state variables to writers and granted accounts', () => {
+  const dot = buildAclFlowGraph(analyzeSoliditySource(source));
+
+  assert.match(dot, /^digraph AclFlow \{/);
+  assert.match(dot, /"state:_balances" \[label="_balances\\nmapping\(address => euint64\)"/);
+  assert.ok(!dot.includes('holders'));
+
+  assert.ok(dot.includes('"function:transfer" -> "state:_balances" [label="writes"'));
+  assert.ok(dot.includes('"state:_balances" -> "account:this" [label="allowThis\\n(transfer)"'));
+  assert.ok(dot.includes('"state:_balances" -> "account:to" [label="allow\\n(transfer)"'));
+  assert.ok(dot.includes('"state:_supply" -> "account:public" [label="makePubliclyDecryptable\\n(mint)"'));
+});
+
+test('buildAclFlowGraph draws grants on values outside state from their function', () => {
+  const dot = buildAclFlowGraph(analyzeSoliditySource(source));
+
+  assert.ok(
+    dot.includes('"function:isHolder" -> "account:msg.sender" [label="allowTransient(holder)", color="#ef6c00", style=dashed]')
+  );
+});
+
+test('hasAclFlow is false for contracts without encrypted state or grants', () => {
+  const analysis = analyzeSoliditySource(`
+    pragma solidity ^0.8.24;
+    contract Plain {
+      uint256 public value;
+      function set(uint256 next) external { value = next; }
+    }
+  `);
+
+  assert.strictEqual(hasAclFlow(analysis), false);
+});
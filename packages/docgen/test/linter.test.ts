@@ -0,0 +1,172 @@
+/**
+ * Tests for the FHEVM security linter
+ */
+
+import assert from 'node:assert';
+import { test } from 'node:test';
+import { lintSoliditySource } from '../src/lint/linter.js';
+import { toSarif } from '../src/lint/sarif.js';
+
+const header = `
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, ebool, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+`;
+
+const safe = `${header}
+contract SafeToken {
+  mapping(address => euint64) private _balances;
+
+  function transfer(address to, euint64 amount) external {
+    require(FHE.isSenderAllowed(amount));
+    ebool enough = FHE.le(amount, _balances[msg.sender]);
+    euint64 sent = FHE.select(enough, amount, FHE.asEuint64(0));
+
+    _balances[msg.sender] = FHE.sub(_balances[msg.sender], sent);
+    FHE.allowThis(_balances[msg.sender]);
+    FHE.allow(_balances[msg.sender], msg.sender);
+
+    euint64 received = FHE.add(_balances[to], sent);
+    FHE.allowThis(received);
+    FHE.allow(received, to);
+    _balances[to] = received;
+  }
+}
+`;
+
+const unsafe = `${header}
+contract UnsafeCounter {
+  euint64 private _count;
+  uint64 public lastValue;
+
+  function increment(externalEuint64 input, bytes calldata inputProof) external {
+    _count = FHE.add(_count, FHE.fromExternal(input, inputProof));
+  }
+
+  function addHandle(euint64 value) external {
+    _count = FHE.add(_count, value);
+    FHE.allowThis(_count);
+    FHE.allow(_count, msg.sender);
+  }
+
+  function settle() external {
+    uint64 plain = TFHE.decrypt(_count);
+    if (plain > 100) {
+      lastValue = plain;
+    }
+  }
+}
+`;
+
+test('lintSoliditySource reports nothing for guarded code with ACL grants', () => {
+  assert.deepStrictEqual(lintSoliditySource(safe), []);
+});
+
+test('lintSoliditySource reports each rule with its function and line', () => {
+  const findings = lintSoliditySource(unsafe, { file: 'contracts/UnsafeCounter.sol' });
+
+  assert.deepStrictEqual(
+    findings.map(({ ruleId, severity, function: name, line }) => [ruleId, severity, name, line]),
+    [
+      ['missing-allow-this', 'error', 'increment', 12],
+      ['missing-user-allow', 'warning', 'increment', 12],
+      ['unchecked-overflow', 'warning', 'increment', 12],
+      ['unchecked-handle-input', 'error', 'addHandle', 15],
+      ['unchecked-overflow', 'warning', 'addHandle', 16],
+      ['decrypted-branch', 'error', 'settle', 23],
+    ]
+  );
+  assert.ok(findings.every((finding) => finding.file === 'contracts/UnsafeCounter.sol'));
+  assert.ok(findings.every((finding) => finding.contract === 'UnsafeCounter'));
+});
+
+test('lintSoliditySource honours suppression comments', () => {
+  const suppressed = unsafe
+    .replace(
+      '    _count = FHE.add(_count, FHE.fromExternal(input, inputProof));',
+      '    // zcraft-lint-disable-next-line missing-allow-this, unchecked-overflow\n' +
+        '    _count = FHE.add(_count, FHE.fromExternal(input, inputProof));'
+    )
+    .replace('    if (plain > 100) {', '    if (plain > 100) { // zcraft-lint-disable-line')
+    .replace(
+      'contract UnsafeCounter {',
+      '// zcraft-lint-disable unchecked-handle-input\ncontract UnsafeCounter {'
+    );
+
+  assert.deepStrictEqual(
+    lintSoliditySource(suppressed).map((finding) => finding.ruleId),
+    ['missing-user-allow', 'unchecked-overflow']
+  );
+});
+
+test('lintSoliditySource reports inherited functions once', () => {
+  const derived = `${unsafe}
+contract LimitedCounter is UnsafeCounter {
+  function reset() external {
+    _count = FHE.asEuint64(0);
+    FHE.allowThis(_count);
+    FHE.allow(_count, msg.sender);
+  }
+}
+`;
+
+  assert.deepStrictEqual(
+    lintSoliditySource(derived).map((finding) => [finding.ruleId, finding.contract]),
+    lintSoliditySource(unsafe).map((finding) => [finding.ruleId, finding.contract])
+  );
+});
+
+test('lintSoliditySource reports each unchecked handle of a function', () => {
+  const combine = `${header}
+contract Combiner {
+  euint64 private _sum;
+
+  function combine(euint64 a, euint64 b) external {
+    _sum = FHE.select(FHE.lt(a, b), a, b);
+    FHE.allowThis(_sum);
+    FHE.allow(_sum, msg.sender);
+  }
+}
+`;
+
+  assert.deepStrictEqual(
+    lintSoliditySource(combine)
+      .filter((finding) => finding.ruleId === 'unchecked-handle-input')
+      .map((finding) => finding.message),
+    [
+      'Handle parameter a is not checked with FHE.isSenderAllowed(a)',
+      'Handle parameter b is not checked with FHE.isSenderAllowed(b)',
+    ]
+  );
+});
+
+/**
+ * Parts of a SARIF log the tests read
+ */
+interface SarifLog {
+  version: string;
+  runs: Array<{
+    tool: { driver: { name: string; rules: Array<{ id: string }> } };
+    results: Array<{
+      ruleIndex: number;
+      locations: Array<{ physicalLocation: Record<string, unknown> }>;
+    }>;
+  }>;
+}
+
+test('toSarif lists rules and results with their location', () => {
+  const sarif = toSarif(
+    lintSoliditySource(unsafe, { file: 'contracts/UnsafeCounter.sol' })
+  ) as unknown as SarifLog;
+  const [run] = sarif.runs;
+
+  assert.strictEqual(sarif.version, '2.1.0');
+  assert.strictEqual(run.tool.driver.name, 'zcraft');
+  assert.strictEqual(run.results.length, 6);
+  assert.deepStrictEqual(run.results[0].locations[0].physicalLocation, {
+    artifactLocation: { uri: 'contracts/UnsafeCounter.sol' },
+    region: { startLine: 12 },
+  });
+  assert.strictEqual(run.tool.driver.rules[run.results[0].ruleIndex].id, 'missing-allow-this');
+});
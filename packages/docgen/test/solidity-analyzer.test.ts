@@ -0,0 +1,176 @@
+/**
+ * Tests for the Solidity source analyzer
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert';
+import { analyzeSoliditySource, summarizeFheOperations } from '../src/parsers/solidity-analyzer.js';
+
+const source = `
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, ebool, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+
+contract ConfidentialVault {
+  using FHE for *;
+
+  struct Position {
+    euint64 amount;
+    uint256 openedAt;
+  }
+
+  euint64 private _total;
+  mapping(address => euint64) private _balances;
+  mapping(address => Position) public positions;
+  uint256 public depositCount;
+
+  // FHE.add(a, b) in a comment is not a call
+  function deposit(externalEuint64 encryptedAmount, bytes calldata inputProof) external {
+    euint64 amount = FHE.fromExternal(encryptedAmount, inputProof);
+    /* FHE.mul(amount, amount) */
+    _balances[msg.sender] = _balances[msg.sender].add(amount);
+    _total = FHE.add(_total, amount);
+
+    FHE.allowThis(_balances[msg.sender]);
+    FHE.allow(_balances[msg.sender], msg.sender);
+    _total.allowThis();
+    depositCount++;
+  }
+
+  function isRich(address account) external returns (ebool) {
+    ebool rich = _balances[account].gt(FHE.asEuint64(1000));
+    FHE.allowTransient(rich, msg.sender);
+    return rich;
+  }
+
+  function count() external view returns (uint256) {
+    return depositCount;
+  }
+}
+`;
+
+test('analyzeSoliditySource finds encrypted state variables with their types', () => {
+  const analysis = analyzeSoliditySource(source);
+
+  assert.strictEqual(analysis.contractName, 'ConfidentialVault');
+  assert.deepStrictEqual(
+    analysis.stateVariables.map((variable) => [variable.name, variable.type, variable.fheTypes]),
+    [
+      ['_total', 'euint64', ['euint64']],
+      ['_balances', 'mapping(address => euint64)', ['euint64']],
+      ['positions', 'mapping(address => Position)', ['euint64']],
+    ]
+  );
+});
+
+test('analyzeSoliditySource maps FHE operations per function, ignoring comments', () => {
+  const analysis = analyzeSoliditySource(source);
+  const deposit = analysis.functions.find((func) => func.name === 'deposit');
+
+  assert.ok(deposit);
+  assert.deepStrictEqual(deposit.parameterTypes, ['externalEuint64', 'bytes']);
+  assert.deepStrictEqual(
+    deposit.operations.map((operation) => [operation.name, operation.count]),
+    [
+      ['FHE.add', 2],
+      ['FHE.allowThis', 2],
+      ['FHE.allow', 1],
+      ['FHE.fromExternal', 1],
+    ]
+  );
+
+  const count = analysis.functions.find((func) => func.name === 'count');
+  assert.deepStrictEqual(count?.operations, []);
+});
+
+test('analyzeSoliditySource resolves method-style calls through mappings', () => {
+  const analysis = analyzeSoliditySource(source);
+  const isRich = analysis.functions.find((func) => func.name === 'isRich');
+
+  assert.deepStrictEqual(
+    isRich?.operations.map((operation) => operation.name),
+    ['FHE.allowTransient', 'FHE.asEuint64', 'FHE.gt']
+  );
+});
+
+test('analyzeSoliditySource records ACL grants with their handle and account', () => {
+  const analysis = analyzeSoliditySource(source);
+  const deposit = analysis.functions.find((func) => func.name === 'deposit');
+
+  assert.deepStrictEqual(
+    deposit?.aclGrants.map(({ method, handle, account }) => ({ method, handle, account })),
+    [
+      { method: 'allowThis', handle: '_balances[msg.sender]', account: 'this' },
+      { method: 'allow', handle: '_balances[msg.sender]', account: 'msg.sender' },
+      { method: 'allowThis', handle: '_total', account: 'this' },
+    ]
+  );
+});
+
+test('summarizeFheOperations totals operations across functions', () => {
+  const operations = summarizeFheOperations(analyzeSoliditySource(source));
+
+  assert.deepStrictEqual(operations.slice(0, 2).map((operation) => [operation.name, operation.count]), [
+    ['FHE.add', 2],
+    ['FHE.allowThis', 2],
+  ]);
+  assert.ok(!operations.some((operation) => operation.name === 'FHE.mul'));
+});
+
+test('analyzeSoliditySource records encrypted state writes, ignoring plain state', () => {
+  const analysis = analyzeSoliditySource(source);
+  const deposit = analysis.functions.find((func) => func.name === 'deposit');
+
+  assert.deepStrictEqual(
+    deposit?.stateWrites.map(({ variable, target }) => [variable, target]),
+    [
+      ['_balances', '_balances[msg.sender]'],
+      ['_total', '_total'],
+    ]
+  );
+});
+
+test('analyzeSoliditySource merges state and functions of bases in the same file', () => {
+  const inherited = `
+import { FHE, euint64, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+
+abstract contract EncryptedBalances {
+  mapping(address => euint64) internal _balances;
+
+  function balanceOf(address account) public view virtual returns (euint64) {
+    return _balances[account];
+  }
+}
+
+contract Token is SepoliaConfig, EncryptedBalances {
+  function mint(externalEuint64 encryptedAmount, bytes calldata inputProof) external {
+    _balances[msg.sender] = FHE.add(_balances[msg.sender], FHE.fromExternal(encryptedAmount, inputProof));
+    FHE.allowThis(_balances[msg.sender]);
+  }
+
+  function balanceOf(address account) public view override returns (euint64) {
+    return _balances[account];
+  }
+}
+`;
+  const analysis = analyzeSoliditySource(inherited);
+
+  assert.strictEqual(analysis.contractName, 'Token');
+  assert.deepStrictEqual(
+    analysis.stateVariables.map((variable) => variable.name),
+    ['_balances']
+  );
+  assert.deepStrictEqual(
+    analysis.functions.map((func) => [func.name, func.line]),
+    [
+      ['mint', 14],
+      ['balanceOf', 19],
+    ]
+  );
+  assert.deepStrictEqual(
+    analysis.functions[0].stateWrites.map((write) => write.variable),
+    ['_balances']
+  );
+});